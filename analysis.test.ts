@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createBasicAnalysis, describeItemAnalysis, parseItemAnalysis, withCategory } from './analysis';
+
+const reply = {
+    category: 'jacket',
+    categories: ['Jacket', 'top', 'Scarf'],
+    subcategory: 'Denim trucker jacket',
+    colors: ['#1A2B3C', 'navy', '#ffffff', '#000000', '#123456', '#abcdef'],
+    material: 'Denim',
+    pattern: '',
+    fit: 'Boxy',
+    gender: 'unisex',
+    details: ['Copper buttons', 'Chest pockets'],
+};
+
+describe('parseItemAnalysis', () => {
+    it('normalizes a full reply', () => {
+        expect(parseItemAnalysis(JSON.stringify(reply))).toEqual({
+            category: 'Jacket',
+            categories: ['Jacket', 'Top'],
+            subcategory: 'Denim trucker jacket',
+            colors: ['#1a2b3c', '#ffffff', '#000000'],
+            material: 'Denim',
+            pattern: '',
+            fit: 'Boxy',
+            gender: 'Unisex',
+            details: ['Copper buttons', 'Chest pockets'],
+            status: 'analyzed',
+        });
+    });
+
+    it('reads the JSON object out of surrounding text', () => {
+        expect(parseItemAnalysis(`Here you go:\n\`\`\`json\n${JSON.stringify(reply)}\n\`\`\``).category).toBe('Jacket');
+    });
+
+    it('fills in missing and mistyped fields from a partial reply', () => {
+        expect(parseItemAnalysis('{"category": "Kilt", "colors": "red", "details": [1, "Pleats"], "fit": 3}')).toEqual({
+            ...createBasicAnalysis('Other', 'analyzed'),
+            details: ['Pleats'],
+        });
+    });
+
+    it('rejects replies that are not JSON objects', () => {
+        expect(() => parseItemAnalysis('null')).toThrow('not a JSON object');
+        expect(() => parseItemAnalysis('["Jacket"]')).toThrow('not a JSON object');
+        expect(() => parseItemAnalysis('"Jacket"')).toThrow('not a JSON object');
+        expect(() => parseItemAnalysis('Sorry, I can only see a cat.')).toThrow(SyntaxError);
+    });
+});
+
+describe('withCategory', () => {
+    it('moves the chosen category first and drops the replaced one', () => {
+        const analysis = parseItemAnalysis(JSON.stringify(reply));
+        expect(withCategory(analysis, 'Top')).toMatchObject({ category: 'Top', categories: ['Top'], status: 'edited', material: 'Denim' });
+    });
+});
+
+describe('describeItemAnalysis', () => {
+    it('lists only the attributes that are known', () => {
+        expect(describeItemAnalysis({ ...createBasicAnalysis('Watch'), colors: ['#c0c0c0'] })).toEqual(['Type: Watch', 'Colors: #c0c0c0']);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isRecord, isStringList } from './guards';
+import { ITEM_CATEGORIES, toItemCategory } from './presets';
+
+// --- Item Analysis ---
+export const GENDER_TARGETS = ['Women', 'Men', 'Unisex', 'Kids'];
+export const MAX_ITEM_COLORS = 4;
+
+export interface ItemAnalysis {
+    // Primary category: one of ITEM_CATEGORIES, or 'Other'.
+    category: string;
+    // Every category that fits, primary first; e.g. an overshirt is both a Jacket and a Top.
+    categories: string[];
+    subcategory: string;
+    // Dominant colors of the item as hex codes, most prominent first.
+    colors: string[];
+    material: string;
+    pattern: string;
+    fit: string;
+    // One of GENDER_TARGETS, or empty when unknown.
+    gender: string;
+    // Logos, text, hardware and trims that identify this exact item.
+    details: string[];
+    // 'failed' marks the fallback used when analysis errors, so the user knows to check it.
+    status: 'analyzed' | 'edited' | 'failed';
+    // Why analysis failed, shown with the fallback.
+    error?: string;
+}
+
+export const ITEM_ANALYSIS_PROMPT = `Analyze the image and describe the primary clothing or accessory item for a fashion e-commerce catalog. Respond with ONLY a JSON object:
+- "category": the ONE category that best fits, from: ${ITEM_CATEGORIES.join(', ')}. If none fits, use "Other".
+- "categories": every category from the same list that applies, best fit first (e.g. an overshirt is ["Jacket", "Top"]).
+- "subcategory": the specific type, e.g. "denim trucker jacket" or "chronograph watch".
+- "colors": up to ${MAX_ITEM_COLORS} dominant colors of the item itself, not the background, as hex codes like "#1a2b3c", most prominent first.
+- "material", "pattern", "fit": short descriptions, or "" when not applicable.
+- "gender": the target customer: ${GENDER_TARGETS.join(', ')}.
+- "details": notable features that identify this exact item, such as logos, text, hardware, stitching, or trims.`;
+
+export const createBasicAnalysis = (category: string, status: ItemAnalysis['status'] = 'edited'): ItemAnalysis => ({
+    category,
+    categories: [category],
+    subcategory: '',
+    colors: [],
+    material: '',
+    pattern: '',
+    fit: '',
+    gender: '',
+    details: [],
+    status,
+});
+
+// Manual corrections keep the rest of the analysis; the replaced category is dropped as wrong.
+export const withCategory = (analysis: ItemAnalysis | null, category: string): ItemAnalysis => analysis
+    ? {
+        ...analysis,
+        category,
+        categories: [category, ...analysis.categories.filter(c => c !== category && c !== analysis.category)],
+        status: 'edited',
+    }
+    : createBasicAnalysis(category);
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim().slice(0, 120) : '';
+
+const toTextList = (value: unknown, limit: number): string[] =>
+    Array.isArray(value) ? value.map(toText).filter(Boolean).slice(0, limit) : [];
+
+// The schema constrains Gemini's output, but the proxy and mock can return anything; every
+// field is checked and anything unexpected is dropped rather than sent on to the prompts.
+export const parseItemAnalysis = (text: string): ItemAnalysis => {
+    const json: unknown = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? text);
+    if (!isRecord(json)) throw new Error("The item analysis reply is not a JSON object.");
+    const category = toItemCategory(json.category) ?? 'Other';
+    const extraCategories = Array.isArray(json.categories) ? json.categories.map(toItemCategory).filter(Boolean) : [];
+    return {
+        category,
+        categories: [...new Set<string>([category, ...extraCategories])],
+        subcategory: toText(json.subcategory),
+        colors: toTextList(json.colors, MAX_ITEM_COLORS).filter(color => /^#[0-9a-f]{6}$/i.test(color)).map(color => color.toLowerCase()),
+        material: toText(json.material),
+        pattern: toText(json.pattern),
+        fit: toText(json.fit),
+        gender: GENDER_TARGETS.find(target => target.toLowerCase() === toText(json.gender).toLowerCase()) ?? '',
+        details: toTextList(json.details, 8),
+        status: 'analyzed',
+    };
+};
+
+// Saved analyses may have been corrected by hand, so text is type-checked but kept as written.
+export const readStoredAnalysis = (value: unknown): ItemAnalysis | null => {
+    if (!isRecord(value)) return null;
+    const text = (field: unknown) => typeof field === 'string' ? field : '';
+    const category = toItemCategory(value.category) ?? 'Other';
+    const extraCategories = isStringList(value.categories) ? value.categories.map(toItemCategory).filter(Boolean) : [];
+    return {
+        category,
+        categories: [...new Set<string>([category, ...extraCategories])],
+        subcategory: text(value.subcategory),
+        colors: isStringList(value.colors) ? value.colors.filter(color => /^#[0-9a-f]{6}$/i.test(color)).slice(0, MAX_ITEM_COLORS) : [],
+        material: text(value.material),
+        pattern: text(value.pattern),
+        fit: text(value.fit),
+        gender: GENDER_TARGETS.includes(text(value.gender)) ? text(value.gender) : '',
+        details: isStringList(value.details) ? value.details : [],
+        status: value.status === 'analyzed' || value.status === 'failed' ? value.status : 'edited',
+        error: typeof value.error === 'string' ? value.error : undefined,
+    };
+};
+
+export const describeItemAnalysis = (analysis: ItemAnalysis): string[] => [
+    `Type: ${analysis.subcategory || analysis.category}${analysis.categories.length > 1 ? ` (${analysis.categories.join(' / ')})` : ''}`,
+    analysis.colors.length > 0 && `Colors: ${analysis.colors.join(', ')}`,
+    analysis.material && `Material: ${analysis.material}`,
+    analysis.pattern && `Pattern: ${analysis.pattern}`,
+    analysis.fit && `Fit: ${analysis.fit}`,
+    analysis.gender && `Made for: ${analysis.gender}`,
+    analysis.details.length > 0 && `Details: ${analysis.details.join('; ')}`,
+].filter((line): line is string => !!line);
+
+// The photo stays the ground truth; the spec tells the model which of its details matter most.
+export const buildItemSpecPrompt = (analysis: ItemAnalysis) => `
+
+## HERO ITEM SPECIFICATION ##
+These attributes of the HERO ITEM were verified from its photo. The item in the output MUST match every one of them exactly: reproduce these colors, this material and pattern, and every listed detail.
+${describeItemAnalysis(analysis).map(line => `- ${line}`).join('\n')}
+`;
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { IDENTITY_VIEW, MAX_ZOOM, zoomView } from './compare';
+
+describe('zoomView', () => {
+    it('zooms around the centre by default', () => {
+        expect(zoomView(IDENTITY_VIEW, 2)).toEqual({ scale: 2, x: 0, y: 0 });
+    });
+
+    it('keeps the point under the cursor still', () => {
+        const view = zoomView(IDENTITY_VIEW, 2, 100, -50);
+        expect(view).toEqual({ scale: 2, x: -100, y: 50 });
+        // The frame point (100, -50) showed image point (100, -50) before and still does.
+        expect((100 - view.x) / view.scale).toBe(100);
+        expect((-50 - view.y) / view.scale).toBe(-50);
+    });
+
+    it('caps the zoom', () => {
+        expect(zoomView({ scale: 6, x: 0, y: 0 }, 2).scale).toBe(MAX_ZOOM);
+        expect(zoomView({ scale: MAX_ZOOM, x: 30, y: 20 }, 1.5)).toEqual({ scale: MAX_ZOOM, x: 30, y: 20 });
+    });
+
+    it('resets the pan when zoomed back out to the whole image', () => {
+        expect(zoomView({ scale: 1.5, x: 40, y: -25 }, 1 / 1.5)).toBe(IDENTITY_VIEW);
+        expect(zoomView({ scale: 2, x: 40, y: -25 }, 0.1)).toBe(IDENTITY_VIEW);
+    });
+});
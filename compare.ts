@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Compare View ---
+export type CompareLayout = 'grid' | 'swipe';
+
+// Shared by every image in the compare view so zooming and panning stay in sync.
+export interface ViewTransform {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+// Including the active version, so up to three others can be added.
+export const MAX_COMPARE_VERSIONS = 4;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.5;
+
+// Zooms around a point given relative to the frame's centre, keeping that point still.
+export const zoomView = (view: ViewTransform, factor: number, px = 0, py = 0): ViewTransform => {
+    const scale = Math.min(MAX_ZOOM, Math.max(1, view.scale * factor));
+    if (scale === 1) return IDENTITY_VIEW;
+    const ratio = scale / view.scale;
+    return { scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+};
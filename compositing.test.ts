@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { blendMasked, featherMask, paintedToMask } from './compositing';
+
+// RGBA pixels, one [r, g, b, a] per pixel.
+const pixels = (...values: number[][]) => new Uint8ClampedArray(values.flat());
+const gray = (...levels: number[]) => pixels(...levels.map(level => [level, level, level, 255]));
+
+describe('paintedToMask', () => {
+    it('marks any paint as editable and everything else as kept', () => {
+        const overlay = pixels([255, 0, 0, 128], [255, 0, 0, 1], [255, 0, 0, 0], [0, 0, 0, 0]);
+        expect([...paintedToMask(overlay)]).toEqual([...gray(255, 255, 0, 0)]);
+    });
+
+    it('writes the mask in place', () => {
+        const overlay = pixels([255, 0, 0, 255]);
+        expect(paintedToMask(overlay)).toBe(overlay);
+    });
+});
+
+describe('featherMask', () => {
+    it('fades inward from the mask edge only', () => {
+        // A row across the mask edge: kept, kept, edited, edited, edited, and its blurred copy.
+        const hard = gray(0, 0, 255, 255, 255);
+        const blurred = gray(40, 100, 160, 220, 255);
+        expect([...featherMask(hard, blurred)]).toEqual([0, 0, 160, 220, 255]);
+    });
+
+    it('keeps partial coverage from a resized mask', () => {
+        expect([...featherMask(gray(128), gray(255))]).toEqual([128]);
+    });
+});
+
+describe('blendMasked', () => {
+    const base = pixels([10, 20, 30, 255], [10, 20, 30, 255], [10, 20, 30, 255]);
+    const edited = pixels([210, 120, 230, 255], [210, 120, 230, 255], [210, 120, 230, 0]);
+
+    it('keeps unmasked pixels exactly and takes fully masked ones from the edit', () => {
+        const result = blendMasked(base, edited, new Uint8ClampedArray([0, 255, 255]));
+        expect([...result.slice(0, 4)]).toEqual([10, 20, 30, 255]);
+        expect([...result.slice(4, 8)]).toEqual([210, 120, 230, 255]);
+    });
+
+    it('blends feathered edge pixels and keeps the result opaque', () => {
+        const result = blendMasked(base, edited, new Uint8ClampedArray([51, 0, 255]));
+        // 20% of the way from base to edit.
+        expect([...result.slice(0, 4)]).toEqual([50, 40, 70, 255]);
+        expect(result[11]).toBe(255);
+    });
+});
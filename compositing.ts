@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Regional Editing ---
+// Pixel work for regional edits, on raw RGBA data. Masks are white where the model may repaint
+// and black where the original is kept.
+
+// Turns the painted overlay (opaque where painted) into an opaque black-and-white mask, in place.
+// Any paint at all counts, so the faint edge of a soft brush stroke is still editable.
+export const paintedToMask = (pixels: Uint8ClampedArray): Uint8ClampedArray => {
+    for (let i = 0; i < pixels.length; i += 4) {
+        const value = pixels[i + 3] > 0 ? 255 : 0;
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+        pixels[i + 3] = 255;
+    }
+    return pixels;
+};
+
+// Per-pixel blend weight (0-255) from the mask and a blurred copy of it. Taking the smaller of the
+// two fades the edit inward from the mask edge only, so nothing outside the mask is touched.
+export const featherMask = (hard: Uint8ClampedArray, blurred: Uint8ClampedArray): Uint8ClampedArray => {
+    const weights = new Uint8ClampedArray(hard.length / 4);
+    for (let i = 0; i < weights.length; i++) weights[i] = Math.min(hard[i * 4], blurred[i * 4]);
+    return weights;
+};
+
+// Blends the edited pixels over the base by weight; the result is opaque, like the base photo.
+export const blendMasked = (base: Uint8ClampedArray, edited: Uint8ClampedArray, weights: Uint8ClampedArray): Uint8ClampedArray => {
+    const result = new Uint8ClampedArray(base.length);
+    for (let i = 0; i < weights.length; i++) {
+        const weight = weights[i] / 255;
+        for (let c = i * 4; c < i * 4 + 3; c++) {
+            result[c] = weight === 0 ? base[c] : weight === 1 ? edited[c] : Math.round(base[c] + (edited[c] - base[c]) * weight);
+        }
+        result[i * 4 + 3] = 255;
+    }
+    return result;
+};
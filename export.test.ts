@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildExportManifest, buildProvenance, CropAnalysis, EXPORT_PRESETS, ExportResult, findSmartCrop, getMaxCrop } from './export';
+
+// A wide saliency map that is empty apart from a bright vertical band starting at `bandX`.
+const createAnalysis = (bandX: number, patch: Partial<CropAnalysis> = {}): CropAnalysis => {
+    const width = 90;
+    const height = 30;
+    const saliency = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = bandX; x < bandX + 10; x++) saliency[y * width + x] = 1;
+    }
+    return { saliency, width, height, faces: [], heroBox: null, ...patch };
+};
+
+describe('getMaxCrop', () => {
+    it('centers the largest window of the target aspect', () => {
+        expect(getMaxCrop(2, 1)).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+        expect(getMaxCrop(1, 2)).toEqual({ x: 0, y: 0.25, width: 1, height: 0.5 });
+    });
+});
+
+describe('findSmartCrop', () => {
+    it('moves the window over the most interesting part of the image', () => {
+        const crop = findSmartCrop(createAnalysis(75), 1);
+
+        expect(crop.width).toBeCloseTo(1 / 3);
+        expect(crop.x + crop.width).toBeGreaterThanOrEqual(85 / 90);
+    });
+
+    it('keeps faces in frame over busier areas', () => {
+        const face = { x: 0.05, y: 0.2, width: 0.1, height: 0.2 };
+        const crop = findSmartCrop(createAnalysis(75, { faces: [face] }), 1);
+
+        expect(crop.x).toBeLessThanOrEqual(face.x);
+        expect(crop.x + crop.width).toBeGreaterThanOrEqual(face.x + face.width);
+    });
+});
+
+describe('buildProvenance', () => {
+    it('discloses the image as AI-generated and records how it was made', () => {
+        const record = buildProvenance({ stylePrompt: 'Setting: rooftop', shotType: 'model', itemCategory: 'Jacket', createdAt: Date.UTC(2026, 9, 18) });
+
+        expect(record).toMatchObject({ aiGenerated: true, brief: 'Setting: rooftop', model: 'unknown', createdAt: '2026-10-18T00:00:00.000Z', heroItemSha256: null });
+        expect(record.disclosure).toMatch(/^AI-generated image\./);
+    });
+});
+
+describe('buildExportManifest', () => {
+    it('lists every file with its size, hash and whether metadata is embedded', async () => {
+        const provenance = buildProvenance({ stylePrompt: 'Brief', shotType: 'product', itemCategory: null, createdAt: 0 });
+        const [jpeg, webp] = [EXPORT_PRESETS[0], EXPORT_PRESETS.find(preset => preset.format === 'webp')!];
+        const result = (filename: string, text: string): ExportResult => ({ blob: new Blob([text]), filename, quality: 0.9, fitsLimit: true });
+
+        const manifest = JSON.parse(await (await buildExportManifest(provenance, [
+            { preset: jpeg, result: result('look-a.jpg', 'abc') },
+            { preset: webp, result: result('look-b.webp', '') },
+        ])).text());
+
+        expect(manifest.brief).toBe('Brief');
+        expect(manifest.files).toEqual([
+            { filename: 'look-a.jpg', preset: jpeg.id, width: jpeg.width, height: jpeg.height, format: 'jpeg', bytes: 3, sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad', embeddedMetadata: true },
+            { filename: 'look-b.webp', preset: webp.id, width: webp.width, height: webp.height, format: 'webp', bytes: 0, sha256: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855', embeddedMetadata: false },
+        ]);
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { embedProvenance, ProvenanceRecord, sha256Hex } from './metadata';
+
+// --- Export ---
+// Channel presets render the active version at exact pixel sizes. Crops start from a smart crop
+// that keeps faces and the hero item in frame, and can be adjusted per preset before exporting.
+
+// Fractions of the source image.
+export interface CropRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+export interface ExportPreset {
+    id: string;
+    name: string;
+    channel: string;
+    width: number;
+    height: number;
+    format: ExportFormat;
+    // 0-1; ignored for PNG.
+    quality: number;
+    // Largest accepted file, in kilobytes; quality is lowered until the export fits.
+    maxKB: number | null;
+}
+
+export const EXPORT_FORMATS: { [format in ExportFormat]: { label: string; mimeType: string; extension: string } } = {
+    jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+    avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif' },
+    png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+};
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'instagram-feed', name: 'Feed Portrait', channel: 'Instagram', width: 1080, height: 1350, format: 'jpeg', quality: 0.9, maxKB: 8192 },
+    { id: 'instagram-square', name: 'Feed Square', channel: 'Instagram', width: 1080, height: 1080, format: 'jpeg', quality: 0.9, maxKB: 8192 },
+    { id: 'instagram-story', name: 'Story & Reels', channel: 'Instagram', width: 1080, height: 1920, format: 'jpeg', quality: 0.9, maxKB: 8192 },
+    { id: 'shopify-product', name: 'Product Image', channel: 'Shopify', width: 2048, height: 2048, format: 'jpeg', quality: 0.9, maxKB: 20480 },
+    { id: 'zalando', name: 'Zalando', channel: 'Marketplaces', width: 1524, height: 2200, format: 'jpeg', quality: 0.92, maxKB: null },
+    { id: 'amazon-main', name: 'Amazon Main Image', channel: 'Marketplaces', width: 2000, height: 2000, format: 'jpeg', quality: 0.92, maxKB: 10240 },
+    { id: 'web-hero', name: 'Hero Banner', channel: 'Web', width: 1920, height: 800, format: 'webp', quality: 0.82, maxKB: 400 },
+    { id: 'web-hero-mobile', name: 'Hero Banner (Mobile)', channel: 'Web', width: 828, height: 1104, format: 'webp', quality: 0.82, maxKB: 250 },
+];
+
+export const PROVENANCE_GENERATOR = "The Alchemist's Studio";
+export const AI_DISCLOSURE = "AI-generated image. The featured product is based on a photo of the real item; people, settings, and styling are synthetic.";
+
+export interface ProvenanceSource {
+    stylePrompt: string;
+    shotType: string;
+    itemCategory: string | null;
+    model?: string;
+    heroItemSha256?: string | null;
+    createdAt: number;
+}
+
+export const buildProvenance = ({ stylePrompt, shotType, itemCategory, model, heroItemSha256, createdAt }: ProvenanceSource): ProvenanceRecord => ({
+    generator: PROVENANCE_GENERATOR,
+    aiGenerated: true,
+    disclosure: AI_DISCLOSURE,
+    brief: stylePrompt,
+    shotType,
+    itemCategory,
+    model: model ?? 'unknown',
+    createdAt: new Date(createdAt).toISOString(),
+    heroItemSha256: heroItemSha256 ?? null,
+});
+
+export const CUSTOM_EXPORT_PRESET: ExportPreset = { id: 'custom', name: 'Custom Size', channel: 'Custom', width: 1600, height: 1600, format: 'jpeg', quality: 0.9, maxKB: null };
+
+
+// --- Smart Crop ---
+// Chromium's Shape Detection API. Elsewhere crops rely on the saliency map and the hero item box.
+declare const FaceDetector: undefined | (new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+    detect: (image: ImageBitmapSource) => Promise<Array<{ boundingBox: DOMRectReadOnly }>>;
+});
+
+export interface CropAnalysis {
+    saliency: Float32Array;
+    width: number;
+    height: number;
+    faces: CropRegion[];
+    heroBox: CropRegion | null;
+}
+
+const SALIENCY_SIZE = 96;
+
+const isSkinTone = (r: number, g: number, b: number) =>
+    r > 95 && g > 40 && b > 20 && r > g && r > b && r - Math.min(g, b) > 15 && Math.abs(r - g) > 15;
+
+// A coarse interest map: edges, skin tones and saturated color, downscaled for fast window search.
+export const analyzeForCrop = async (image: HTMLImageElement, heroBox: CropRegion | null): Promise<CropAnalysis> => {
+    const scale = SALIENCY_SIZE / Math.max(image.naturalWidth, image.naturalHeight);
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const luma = new Float32Array(width * height);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+    }
+    const saliency = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const dx = luma[y * width + Math.min(width - 1, x + 1)] - luma[y * width + Math.max(0, x - 1)];
+            const dy = luma[Math.min(height - 1, y + 1) * width + x] - luma[Math.max(0, y - 1) * width + x];
+            const [r, g, b] = [pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]];
+            const saturation = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+            saliency[i] = Math.min(1, Math.hypot(dx, dy) / 128) + (isSkinTone(r, g, b) ? 0.6 : 0) + 0.3 * saturation;
+        }
+    }
+
+    let faces: CropRegion[] = [];
+    if (typeof FaceDetector !== 'undefined') {
+        try {
+            const detections = await new FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(image);
+            faces = detections.map(({ boundingBox: box }) => ({
+                x: box.x / image.naturalWidth,
+                y: box.y / image.naturalHeight,
+                width: box.width / image.naturalWidth,
+                height: box.height / image.naturalHeight,
+            }));
+        } catch (err) {
+            console.error("Face detection failed; cropping without it.", err);
+        }
+    }
+    return { saliency, width, height, faces, heroBox };
+};
+
+// Fraction of `region` that lies inside `crop`, both normalized to the image.
+const coverage = (region: CropRegion, crop: CropRegion) => {
+    const overlapWidth = Math.max(0, Math.min(region.x + region.width, crop.x + crop.width) - Math.max(region.x, crop.x));
+    const overlapHeight = Math.max(0, Math.min(region.y + region.height, crop.y + crop.height) - Math.max(region.y, crop.y));
+    return (overlapWidth * overlapHeight) / (region.width * region.height || 1);
+};
+
+// Largest crop of the target aspect, centered; the starting point for smart and manual crops.
+export const getMaxCrop = (imageAspect: number, targetAspect: number): CropRegion => imageAspect > targetAspect
+    ? { x: (1 - targetAspect / imageAspect) / 2, y: 0, width: targetAspect / imageAspect, height: 1 }
+    : { x: 0, y: (1 - imageAspect / targetAspect) / 2, width: 1, height: imageAspect / targetAspect };
+
+// Slides the largest window of the target aspect along the free axis and keeps the position that
+// holds the most interest, strongly preferring windows that keep faces and the hero item whole.
+export const findSmartCrop = ({ saliency, width, height, faces, heroBox }: CropAnalysis, targetAspect: number): CropRegion => {
+    const base = getMaxCrop(width / height, targetAspect);
+    const horizontal = base.width < 1;
+    const columns = new Float32Array(horizontal ? width : height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) columns[horizontal ? x : y] += saliency[y * width + x];
+    }
+    const total = columns.reduce((sum, value) => sum + value, 0) || 1;
+    const span = Math.round((horizontal ? base.width : base.height) * columns.length);
+    const cells = columns.length;
+
+    let best = base;
+    let bestScore = -Infinity;
+    let windowSum = columns.slice(0, span).reduce((sum, value) => sum + value, 0);
+    for (let start = 0; start + span <= cells; start++) {
+        if (start > 0) windowSum += columns[start + span - 1] - columns[start - 1];
+        const crop = horizontal
+            ? { ...base, x: start / cells }
+            : { ...base, y: start / cells };
+        const faceScore = faces.length > 0 ? faces.reduce((sum, face) => sum + coverage(face, crop), 0) / faces.length : 0;
+        const heroScore = heroBox ? coverage(heroBox, crop) : 0;
+        const score = windowSum / total + 2 * faceScore + 1.5 * heroScore;
+        if (score > bestScore) {
+            bestScore = score;
+            best = crop;
+        }
+    }
+    return best;
+};
+
+
+// --- Encoding ---
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error("The image could not be encoded.")),
+        mimeType,
+        quality,
+    ));
+
+export interface ExportResult {
+    blob: Blob;
+    filename: string;
+    quality: number;
+    fitsLimit: boolean;
+}
+
+// Drawn over the finished frame before encoding, such as a brand logo.
+export type ExportOverlay = (ctx: CanvasRenderingContext2D, width: number, height: number) => Promise<void>;
+
+const encodeExport = async (image: HTMLImageElement, crop: CropRegion, preset: ExportPreset, fileStem: string, overlay: ExportOverlay | null): Promise<ExportResult> => {
+    const { label, mimeType, extension } = EXPORT_FORMATS[preset.format];
+    const canvas = document.createElement('canvas');
+    canvas.width = preset.width;
+    canvas.height = preset.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(
+        image,
+        crop.x * image.naturalWidth, crop.y * image.naturalHeight,
+        crop.width * image.naturalWidth, crop.height * image.naturalHeight,
+        0, 0, canvas.width, canvas.height,
+    );
+    if (overlay) await overlay(ctx, canvas.width, canvas.height);
+
+    const filename = `${fileStem}-${preset.id}.${extension}`;
+    const maxBytes = preset.maxKB ? preset.maxKB * 1024 : Infinity;
+    let quality = preset.quality;
+    let blob = await canvasToBlob(canvas, mimeType, quality);
+    // Browsers silently fall back to PNG for formats they can't encode.
+    if (blob.type !== mimeType) throw new Error(`This browser can't export ${label} images. Choose JPEG or WebP instead.`);
+    if (blob.size <= maxBytes || preset.format === 'png') return { blob, filename, quality, fitsLimit: blob.size <= maxBytes };
+
+    // Binary search for the highest quality that fits the size target.
+    let low = 0.3;
+    let high = quality;
+    let fitting: Blob | null = null;
+    for (let i = 0; i < 6; i++) {
+        const mid = (low + high) / 2;
+        const candidate = await canvasToBlob(canvas, mimeType, mid);
+        if (candidate.size <= maxBytes) {
+            fitting = candidate;
+            quality = mid;
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    if (fitting) return { blob: fitting, filename, quality, fitsLimit: true };
+    blob = await canvasToBlob(canvas, mimeType, 0.3);
+    return { blob, filename, quality: 0.3, fitsLimit: false };
+};
+
+// Metadata is added after encoding; it adds a few kilobytes at most on top of the size target.
+export const renderExport = async (image: HTMLImageElement, crop: CropRegion, preset: ExportPreset, fileStem: string, provenance: ProvenanceRecord | null, overlay: ExportOverlay | null = null): Promise<ExportResult> => {
+    const result = await encodeExport(image, crop, preset, fileStem, overlay);
+    return provenance ? { ...result, blob: await embedProvenance(result.blob, provenance) } : result;
+};
+
+// Sidecar for asset managers, and the only provenance record for formats without embedded metadata.
+export const buildExportManifest = async (provenance: ProvenanceRecord, exports: Array<{ preset: ExportPreset; result: ExportResult }>): Promise<Blob> => {
+    const files = await Promise.all(exports.map(async ({ preset, result }) => ({
+        filename: result.filename,
+        preset: preset.id,
+        width: preset.width,
+        height: preset.height,
+        format: preset.format,
+        bytes: result.blob.size,
+        sha256: await sha256Hex(result.blob),
+        embeddedMetadata: preset.format === 'png' || preset.format === 'jpeg',
+    })));
+    return new Blob([JSON.stringify({ ...provenance, files }, null, 2)], { type: 'application/json' });
+};
+
+export const formatFileSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
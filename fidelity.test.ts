@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { colorHistogram, DEFAULT_FIDELITY_SETTINGS, differenceHash, FIDELITY_PASS_SCORE, hashSimilarity, histogramIntersection, parseFidelityVerdict, readFidelitySettings, scoreFidelity } from './fidelity';
+
+// A square RGBA image filled by `color(x, y)`.
+const makePixels = (width: number, height: number, color: (x: number, y: number) => number[]) => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) pixels.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+    return pixels;
+};
+
+const WHITE = [255, 255, 255];
+const RED = [220, 20, 20];
+const BLUE = [20, 20, 220];
+
+// A red or blue item on a white backdrop, filling the middle of the frame.
+const item = (color: number[]) => makePixels(8, 8, (x, y) => x > 1 && x < 6 && y > 1 && y < 6 ? color : WHITE);
+
+describe('parseFidelityVerdict', () => {
+    it('clamps the score and the box to the image', () => {
+        const verdict = parseFidelityVerdict('Verdict: {"score": 140, "box": {"x": 0.8, "y": -0.2, "width": 0.5, "height": 0.5}, "discrepancies": ["Logo is missing", 3]}');
+        expect(verdict).toMatchObject({ score: 100, box: { x: 0.8, y: 0, height: 0.5 }, discrepancies: ['Logo is missing'] });
+        expect(verdict.box!.width).toBeCloseTo(0.2);
+        expect(parseFidelityVerdict('{"score": -5, "box": null}')).toEqual({ score: 0, box: null, discrepancies: [] });
+    });
+
+    it('drops malformed boxes', () => {
+        expect(parseFidelityVerdict('{"score": 80, "box": {"x": 0.1, "y": 0.1, "width": 0, "height": 0.5}}').box).toBeNull();
+        expect(parseFidelityVerdict('{"score": 80, "box": {"x": "0.1", "y": 0.1, "width": 0.5, "height": 0.5}}').box).toBeNull();
+        expect(parseFidelityVerdict('{"score": 80, "box": [0.1, 0.1, 0.5, 0.5]}').box).toBeNull();
+    });
+
+    it('rejects malformed verdicts', () => {
+        expect(() => parseFidelityVerdict('null')).toThrow('not a JSON object');
+        expect(() => parseFidelityVerdict('[80]')).toThrow('not a JSON object');
+        expect(() => parseFidelityVerdict('{"score": "80"}')).toThrow('no score');
+        expect(() => parseFidelityVerdict('{"discrepancies": []}')).toThrow('no score');
+        expect(() => parseFidelityVerdict('The item looks right.')).toThrow(SyntaxError);
+    });
+});
+
+describe('colorHistogram', () => {
+    it('skips the backdrop and matches items of the same color', () => {
+        const red = colorHistogram(item(RED), 8);
+        expect(red.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+        expect(histogramIntersection(red, colorHistogram(item(RED), 8))).toBeCloseTo(1);
+        expect(histogramIntersection(red, colorHistogram(item(BLUE), 8))).toBe(0);
+    });
+
+    it('is empty when the whole image is backdrop', () => {
+        expect(colorHistogram(makePixels(8, 8, () => WHITE), 8).every(value => value === 0)).toBe(true);
+    });
+});
+
+describe('differenceHash', () => {
+    it('matches identical images and differs for mirrored ones', () => {
+        const gradient = makePixels(9, 8, x => [x * 28, x * 28, x * 28]);
+        const mirrored = makePixels(9, 8, x => [(8 - x) * 28, (8 - x) * 28, (8 - x) * 28]);
+        expect(differenceHash(gradient)).toHaveLength(64);
+        expect(hashSimilarity(differenceHash(gradient), differenceHash(gradient))).toBe(1);
+        expect(hashSimilarity(differenceHash(gradient), differenceHash(mirrored))).toBe(0);
+    });
+});
+
+describe('scoreFidelity', () => {
+    const box = { x: 0.2, y: 0.2, width: 0.5, height: 0.5 };
+
+    it('weighs the model verdict against the local checks', () => {
+        const report = scoreFidelity({ score: 90, box, discrepancies: [] }, 0.8, 0.5);
+        // 0.6 * 90 + 0.4 * (100 * (0.7 * 0.8 + 0.3 * 0.5))
+        expect(report).toEqual({ score: 82, passed: true, discrepancies: [], modelScore: 90, colorSimilarity: 0.8, perceptualSimilarity: 0.5, heroBox: box });
+    });
+
+    it('passes at the threshold and fails just below it', () => {
+        expect(scoreFidelity(null, 0.7, 0.7).score).toBe(FIDELITY_PASS_SCORE);
+        expect(scoreFidelity(null, 0.7, 0.7).passed).toBe(true);
+        expect(scoreFidelity(null, 0.69, 0.69).passed).toBe(false);
+    });
+
+    it('flags weak color matches and a missing item', () => {
+        expect(scoreFidelity({ score: 95, box: null, discrepancies: ['Wrong buttons'] }, 0.44, 1).discrepancies).toEqual([
+            'Wrong buttons',
+            "The item's colors differ noticeably from the reference (44% color match).",
+            "The inspector couldn't find the hero item in the image.",
+        ]);
+        expect(scoreFidelity({ score: 95, box, discrepancies: [] }, 0.45, 1).discrepancies).toEqual([]);
+    });
+
+    it('scores on the local checks alone without a verdict', () => {
+        expect(scoreFidelity(null, 1, 1)).toMatchObject({ score: 100, modelScore: null, heroBox: null, discrepancies: [] });
+    });
+});
+
+describe('readFidelitySettings', () => {
+    it('keeps valid saved settings', () => {
+        expect(readFidelitySettings({ enabled: false, autoRetry: true, maxRetries: 3 })).toEqual({ enabled: false, autoRetry: true, maxRetries: 3 });
+    });
+
+    it('falls back to the default for each malformed field', () => {
+        expect(readFidelitySettings({ enabled: 'yes', autoRetry: 1, maxRetries: 50 })).toEqual(DEFAULT_FIDELITY_SETTINGS);
+        expect(readFidelitySettings({ autoRetry: true, maxRetries: 1.5 })).toEqual({ ...DEFAULT_FIDELITY_SETTINGS, autoRetry: true });
+        expect(readFidelitySettings(null)).toEqual(DEFAULT_FIDELITY_SETTINGS);
+    });
+});
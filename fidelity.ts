@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CropRegion } from './export';
+import { isRecord, isStringList } from './guards';
+
+// --- Fidelity Check ---
+// The model's verdict is combined with local color and perceptual checks on the region it found.
+
+export interface FidelityReport {
+    // 0-100, combined from the checks below.
+    score: number;
+    passed: boolean;
+    discrepancies: string[];
+    modelScore: number | null;
+    // 0-1 similarity of the item's color distribution and coarse structure.
+    colorSimilarity: number;
+    perceptualSimilarity: number;
+    // Where the inspector found the hero item, normalized to the image; used for smart crops.
+    heroBox?: CropRegion | null;
+}
+
+export interface FidelitySettings {
+    enabled: boolean;
+    autoRetry: boolean;
+    maxRetries: number;
+}
+
+export interface FidelityVerdict {
+    score: number;
+    box: CropRegion | null;
+    discrepancies: string[];
+}
+
+export const FIDELITY_PASS_SCORE = 70;
+export const FIDELITY_COLOR_WARNING = 0.45;
+export const FIDELITY_RETRY_OPTIONS = [1, 2, 3];
+export const DEFAULT_FIDELITY_SETTINGS: FidelitySettings = { enabled: true, autoRetry: false, maxRetries: 2 };
+
+// Saved settings may be from an older version or edited by hand; anything malformed falls back
+// to its default.
+export const readFidelitySettings = (value: unknown): FidelitySettings => {
+    const settings = isRecord(value) ? value : {};
+    return {
+        enabled: typeof settings.enabled === 'boolean' ? settings.enabled : DEFAULT_FIDELITY_SETTINGS.enabled,
+        autoRetry: typeof settings.autoRetry === 'boolean' ? settings.autoRetry : DEFAULT_FIDELITY_SETTINGS.autoRetry,
+        maxRetries: FIDELITY_RETRY_OPTIONS.find(option => option === settings.maxRetries) ?? DEFAULT_FIDELITY_SETTINGS.maxRetries,
+    };
+};
+
+// Clamped to the image; null unless it's a box with a positive size.
+const readBox = (value: unknown): CropRegion | null => {
+    if (!isRecord(value)) return null;
+    const { x, y, width, height } = value;
+    if (typeof x !== 'number' || typeof y !== 'number' || typeof width !== 'number' || typeof height !== 'number') return null;
+    if (!(width > 0 && height > 0)) return null;
+    return {
+        x: Math.min(1, Math.max(0, x)),
+        y: Math.min(1, Math.max(0, y)),
+        width: Math.min(1 - Math.max(0, x), width),
+        height: Math.min(1 - Math.max(0, y), height),
+    };
+};
+
+export const parseFidelityVerdict = (text: string): FidelityVerdict => {
+    const json: unknown = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? text);
+    if (!isRecord(json)) throw new Error("The fidelity verdict is not a JSON object.");
+    if (typeof json.score !== 'number' || !Number.isFinite(json.score)) throw new Error("The fidelity verdict has no score.");
+    return {
+        score: Math.min(100, Math.max(0, json.score)),
+        box: readBox(json.box),
+        discrepancies: Array.isArray(json.discrepancies) ? json.discrepancies.filter((d): d is string => typeof d === 'string') : [],
+    };
+};
+
+// For reports saved with a project; null when there is no usable score.
+export const readFidelityReport = (value: unknown): FidelityReport | null => {
+    if (!isRecord(value) || typeof value.score !== 'number' || !Number.isFinite(value.score)) return null;
+    const score = Math.min(100, Math.max(0, value.score));
+    const similarity = (field: unknown) => typeof field === 'number' ? Math.min(1, Math.max(0, field)) : 0;
+    return {
+        score,
+        passed: typeof value.passed === 'boolean' ? value.passed : score >= FIDELITY_PASS_SCORE,
+        discrepancies: isStringList(value.discrepancies) ? value.discrepancies : [],
+        modelScore: typeof value.modelScore === 'number' ? value.modelScore : null,
+        colorSimilarity: similarity(value.colorSimilarity),
+        perceptualSimilarity: similarity(value.perceptualSimilarity),
+        heroBox: readBox(value.heroBox),
+    };
+};
+
+// 4x4x4 RGB histogram. Pixels close to the corner color are treated as backdrop and skipped,
+// which matters most for product photos on plain backgrounds.
+export const colorHistogram = (pixels: Uint8ClampedArray, size: number): Float32Array => {
+    const corners = [0, size - 1, size * (size - 1), size * size - 1].map(i => i * 4);
+    const backdrop = [0, 1, 2].map(c => corners.reduce((sum, i) => sum + pixels[i + c], 0) / corners.length);
+    const histogram = new Float32Array(64);
+    let total = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+        const distance = Math.abs(pixels[i] - backdrop[0]) + Math.abs(pixels[i + 1] - backdrop[1]) + Math.abs(pixels[i + 2] - backdrop[2]);
+        if (distance < 48) continue;
+        histogram[(pixels[i] >> 6) * 16 + (pixels[i + 1] >> 6) * 4 + (pixels[i + 2] >> 6)]++;
+        total++;
+    }
+    return total > 0 ? histogram.map(count => count / total) : histogram;
+};
+
+export const histogramIntersection = (a: Float32Array, b: Float32Array): number =>
+    a.reduce((sum, value, i) => sum + Math.min(value, b[i]), 0);
+
+// Difference hash: compares each pixel with its right neighbour on a 9x8 grayscale thumbnail.
+export const differenceHash = (pixels: Uint8ClampedArray): boolean[] => {
+    const gray = (x: number, y: number) => {
+        const i = (y * 9 + x) * 4;
+        return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+    };
+    const bits: boolean[] = [];
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) bits.push(gray(x, y) < gray(x + 1, y));
+    }
+    return bits;
+};
+
+export const hashSimilarity = (a: boolean[], b: boolean[]): number =>
+    a.filter((bit, i) => bit === b[i]).length / a.length;
+
+// Without a verdict (the inspection failed) the local checks alone decide the score.
+export const scoreFidelity = (verdict: FidelityVerdict | null, colorSimilarity: number, perceptualSimilarity: number): FidelityReport => {
+    const localScore = 100 * (0.7 * colorSimilarity + 0.3 * perceptualSimilarity);
+    const score = Math.round(verdict ? 0.6 * verdict.score + 0.4 * localScore : localScore);
+    const discrepancies = [...(verdict?.discrepancies ?? [])];
+    if (colorSimilarity < FIDELITY_COLOR_WARNING) {
+        discrepancies.push(`The item's colors differ noticeably from the reference (${Math.round(colorSimilarity * 100)}% color match).`);
+    }
+    if (verdict && !verdict.box) discrepancies.push("The inspector couldn't find the hero item in the image.");
+
+    return {
+        score,
+        passed: score >= FIDELITY_PASS_SCORE,
+        discrepancies,
+        modelScore: verdict?.score ?? null,
+        colorSimilarity,
+        perceptualSimilarity,
+        heroBox: verdict?.box ?? null,
+    };
+};
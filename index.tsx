@@ -3,21 +3,51 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Modality, Part } from "@google/genai";
+import { Part } from "@google/genai";
+import { CallOptions, createImageProvider, createModelError, ImageProvider, isCancelled, ModelError, ModelErrorKind, ModelUsage, ProviderHealth, providerConfig } from './providers';
+import { createZip, readZip, ZipEntry } from './zip';
+import { isRecord } from './guards';
+import { analyzeForCrop, buildExportManifest, buildProvenance, canvasToBlob, CropAnalysis, CropRegion, CUSTOM_EXPORT_PRESET, EXPORT_FORMATS, EXPORT_PRESETS, ExportFormat, ExportPreset, ExportResult, findSmartCrop, formatFileSize, getMaxCrop, renderExport } from './export';
+import { colorHistogram, DEFAULT_FIDELITY_SETTINGS, differenceHash, FIDELITY_RETRY_OPTIONS, FidelityReport, FidelitySettings, FidelityVerdict, hashSimilarity, histogramIntersection, parseFidelityVerdict, readFidelitySettings, scoreFidelity } from './fidelity';
+import { DEFAULT_PREPROCESS_SETTINGS, estimateBackdrop, findItemMask, getMaskBounds, MAX_DIMENSION_OPTIONS, PreprocessSettings, readPreprocessSettings } from './preprocess';
+import { blendMasked, featherMask, paintedToMask } from './compositing';
+import { CompareLayout, IDENTITY_VIEW, MAX_COMPARE_VERSIONS, MAX_ZOOM, ViewTransform, ZOOM_STEP, zoomView } from './compare';
+import { ASPECT_RATIOS, AspectRatio, createEmptyProject, createId, getVersionLabels, HistoryNode, OutfitItem, Project, readArchivedProject, TalentProfile } from './project';
+import { embedProvenance, ProvenanceRecord, readProvenance, sha256Hex } from './metadata';
+import { BRIEF_FIELDS, BriefField, CATEGORY_INTEGRITY_RULES, composeBrief, CreativeBrief, exportPresetPack, getBriefFields, ITEM_CATEGORIES, PresetKind, PresetScope, readPresetPack, ShotType, StylePreset } from './presets';
+import { buildItemSpecPrompt, createBasicAnalysis, describeItemAnalysis, GENDER_TARGETS, ITEM_ANALYSIS_PROMPT, ItemAnalysis, MAX_ITEM_COLORS, parseItemAnalysis, withCategory } from './analysis';
+import { BudgetPeriod, BudgetSettings, buildUsageCsv, DEFAULT_BUDGET_SETTINGS, formatCost, getBudgetWarning, getPeriodSpend, getPeriodStart, getProjectLabel, measureImages, readBudgetSettings, summarizeUsage, toDateKey, totalReports, USAGE_OPERATION_LABELS, UsageOutcome, UsageOperation, UsageRecord, UsageScope, UsageTotals } from './usage';
 
-// Gracefully handle API key initialization.
-let ai: GoogleGenAI | null = null;
-let apiKeyError: string | null = null;
+// The browser never holds an API key: it talks to the studio server (or the offline mock).
+const provider = createImageProvider(providerConfig);
 
-try {
-    // This will throw an error if process.env.API_KEY is not available.
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (e) {
-    console.error("API Key is missing or invalid. The application will not be able to generate images. Please ensure the API_KEY environment variable is set correctly for your deployment environment.", e);
-    apiKeyError = "The AI Alchemist is not configured correctly. Please contact the administrator to resolve this issue.";
-}
+// Shared across components so the health endpoint is only asked once per successful check.
+let healthCheck: Promise<ProviderHealth> | null = null;
+
+const useConfigError = (): string | null => {
+    const [configError, setConfigError] = useState<string | null>(null);
+
+    useEffect(() => {
+        healthCheck ??= provider.checkHealth();
+        healthCheck.then(health => {
+            if (health.ok) return;
+            healthCheck = null; // Check again next time instead of caching a failure
+            console.error("The image provider is not ready.", health);
+            setConfigError(health.message ?? "The AI Alchemist is not configured correctly. Please contact the administrator to resolve this issue.");
+        });
+    }, []);
+
+    return configError;
+};
+
+// Recorded with each version for provenance; the mock provider reports no model of its own.
+const getImageModelName = async (): Promise<string> => {
+    healthCheck ??= provider.checkHealth();
+    const health = await healthCheck.catch(() => null);
+    return health?.models?.image ?? provider.id;
+};
 
 
 // --- Helper Functions ---
@@ -35,6 +65,73 @@ const fileToGenerativePart = async (file: File): Promise<Part> => {
     };
 };
 
+const dataUrlToGenerativePart = (dataUrl: string): Part => {
+    const [header, data] = dataUrl.split(',');
+    return {
+        inlineData: {
+            data,
+            mimeType: header.slice('data:'.length, header.indexOf(';')),
+        },
+    };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(err);
+        img.src = src;
+    });
+
+// Keeps only image files, dropping anything else picked up from a folder (e.g. .DS_Store).
+const filterImageFiles = (files: File[]): File[] => files.filter(file => file.type.startsWith('image/'));
+
+// Expands dropped folders into their image files. Entries must be read synchronously
+// inside the drop event, before the first await, or the browser discards them.
+const getDroppedImageFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items ?? [])
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) return filterImageFiles(Array.from(dataTransfer.files));
+
+    const files: File[] = [];
+    const walk = async (entry: FileSystemEntry): Promise<void> => {
+        if (entry.isFile) {
+            files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+        } else if (entry.isDirectory) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            // readEntries returns directory contents in chunks until it yields an empty one.
+            let chunk: FileSystemEntry[];
+            do {
+                chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+                for (const child of chunk) await walk(child);
+            } while (chunk.length > 0);
+        }
+    };
+    for (const entry of entries) await walk(entry);
+    return filterImageFiles(files);
+};
+
+// Runs tasks with at most `limit` in flight. Tasks are expected to handle their own errors.
+// Once `signal` aborts, tasks that haven't started are skipped.
+const runWithConcurrency = async (tasks: Array<() => Promise<void>>, limit: number, signal?: AbortSignal): Promise<void> => {
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length && !signal?.aborted) {
+            const task = tasks[next++];
+            await task();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+};
+
+const downloadDataUrl = (dataUrl: string, filename: string) => {
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = dataUrl;
+    link.click();
+};
+
 // --- System Prompts ---
 const MODEL_SHOT_SYSTEM_PROMPT = `
 ## ROLE & MISSION ##
@@ -66,6 +163,19 @@ You will be given multiple inputs. You MUST process them in this order of priori
 -   The generated model should have a consistent and realistic appearance, like a professional fashion model.
 `;
 
+// Shared by refinements (identity from the image being edited) and cast talent (identity from saved references).
+const identityPreservationRule = (source: string) =>
+    `you MUST preserve the face, body, and identity of the model from the '${source}'. DO NOT CHANGE THE PERSON.`;
+
+const buildTalentPrompt = (talent: TalentProfile) => `
+
+## CAST TALENT: IDENTITY LOCK ##
+A specific model has been cast for this shoot and is shown in the 'CAST TALENT REFERENCE' photos.
+- This overrides the rule to generate a completely new person: the model in the output MUST be this cast talent.
+- **PRESERVATION OF IDENTITY:** Across every shot, ${identityPreservationRule('CAST TALENT REFERENCE')}
+- Take ONLY the person's identity from the references. Their outfit, pose, setting and lighting come from the other inputs, and the Hero Item must be worn exactly as shown in its photo.${talent.attributes.trim() ? `\n- **Talent description:** ${talent.attributes.trim()}` : ''}
+`;
+
 const PRODUCT_SHOT_SYSTEM_PROMPT = `
 ## ROLE & MISSION ##
 You are a world-class AI Creative Director known as "The Alchemist." Your purpose is to generate stunning product photographs.
@@ -85,441 +195,5199 @@ You are a world-class AI Creative Director known as "The Alchemist." Your purpos
 `;
 
 
-// --- Components ---
+// --- Casting ---
+// Generated lookbooks frame the model centrally, so a fixed top-centre crop reliably catches the face.
+const TALENT_CROPS: { [name: string]: CropRegion } = {
+    'Head & Shoulders': { x: 0.2, y: 0, width: 0.6, height: 0.45 },
+    'Upper Body': { x: 0.1, y: 0, width: 0.8, height: 0.65 },
+    'Full Frame': { x: 0, y: 0, width: 1, height: 1 },
+};
 
-interface ImageUploaderProps {
-    onFileSelect: (file: File) => void;
-    selectedFile: File | null;
-    onFileRemove: () => void;
-    title: string;
-    description: string;
+const cropDataUrl = async (src: string, region: CropRegion): Promise<string> => {
+    const image = await loadImage(src);
+    const sx = image.naturalWidth * region.x;
+    const sy = image.naturalHeight * region.y;
+    const sWidth = image.naturalWidth * region.width;
+    const sHeight = image.naturalHeight * region.height;
+    const canvas = document.createElement('canvas');
+    canvas.width = sWidth;
+    canvas.height = sHeight;
+    canvas.getContext('2d')!.drawImage(image, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
+    return canvas.toDataURL('image/png');
+};
+
+// --- Outfit ---
+const getIntegrityRule = (category: string | null, notes = '') =>
+    [CATEGORY_INTEGRITY_RULES[category ?? ''] ?? 'Keep its shape, color, materials and details exactly as shown.', notes.trim()]
+        .filter(Boolean)
+        .join(' ');
+
+const buildOutfitPrompt = (heroCategory: string | null, items: OutfitItem[], isProductShot: boolean) => {
+    const itemLines = [
+        `- **HERO ITEM PHOTO** (${heroCategory ?? 'Item'}, PRIMARY): ${getIntegrityRule(heroCategory)}`,
+        ...items.map((item, index) =>
+            `- **OUTFIT ITEM ${index + 1} PHOTO** (${item.category ?? 'Item'}, ${item.role.toUpperCase()}): ${getIntegrityRule(item.category, item.notes)}${item.analysis ? ` Verified attributes: ${describeItemAnalysis(item.analysis).join('; ')}.` : ''}`),
+    ].join('\n');
+
+    const directive = isProductShot
+        ? `## OUTFIT MODE: FLAT-LAY ##
+Arrange ALL of the items below together in ONE composed flat-lay or still life, styled as a complete look.
+- PRIMARY items are placed centrally and given the most space. SECONDARY items complete the composition around them.`
+        : `## OUTFIT MODE: COMPLETE LOOK ##
+The model MUST wear ALL of the items below together as ONE composed outfit.
+- PRIMARY items must be prominent and fully visible. SECONDARY items complete the look and must be visible, but may be partially framed.
+- Style the items together naturally (layering, tucking, accessorizing) without altering any item's design.`;
+
+    return `
+
+${directive}
+- EVERY item is sacred: the Hero Item Integrity rules apply to EACH item individually. Do not merge, recolor or redesign any piece.
+
+**ITEMS AND INTEGRITY RULES:**
+${itemLines}
+`;
+};
+
+// --- Item Analysis ---
+// The analysis itself is parsed and described in analysis.ts; this is how it shapes the shot.
+// Hats and shoes get their own on-model framing, so the item isn't lost in a generic full-body shot.
+const CATEGORY_SHOT_MODES: { [category: string]: { label: string; framing: string } } = {
+    'Shoes': {
+        label: 'On-Foot',
+        framing: 'Frame the shot around the feet and lower legs so the shoes are the clear focal point, fully visible and in sharp focus.',
+    },
+    'Hat': {
+        label: 'On-Head',
+        framing: 'Frame the shot from the chest up so the hat is fully visible on the model\'s head and never cropped by the frame.',
+    },
+};
+
+// --- Presets ---
+const ACCESSORY_CATEGORIES = ['Watch', 'Bracelet', 'Ring', 'Necklace', 'Earrings', 'Handbag'];
+const HAND_CATEGORIES = ['Watch', 'Bracelet', 'Ring'];
+const NECK_FACE_CATEGORIES = ['Necklace', 'Earrings'];
+const APPAREL_CATEGORIES = ['T-Shirt', 'Top', 'Jacket', 'Pants', 'Dress', 'Hat', 'Shoes', 'Handbag'];
+
+const builtInPreset = (id: string, name: string, kind: PresetKind, fields: CreativeBrief, applies: Partial<Pick<StylePreset, 'categories' | 'shotTypes' | 'scope'>> = {}): StylePreset => ({
+    id: `builtin-${id}`,
+    name,
+    kind,
+    fields,
+    tags: ['Built-in'],
+    categories: [],
+    shotTypes: kind === 'suggested' ? ['model'] : [],
+    scope: 'any',
+    inspiration: null,
+    updatedAt: 0,
+    ...applies,
+});
+
+// Seeded into the preset library on first run; teams can edit or delete them like any other preset.
+const DEFAULT_PRESETS: StylePreset[] = [
+    builtInPreset('vintage', 'Vintage', 'style', {
+        lens: 'Soft focus with a vintage, film-like quality',
+        palette: 'Muted, faded film colors',
+        mood: 'Nostalgic and retro',
+    }),
+    builtInPreset('modern', 'Modern', 'style', {
+        setting: 'Modern architecture or a simple, clean background',
+        palette: 'Neutral',
+        mood: 'Clean and minimalist, with sharp lines',
+    }),
+    builtInPreset('bohemian', 'Bohemian', 'style', {
+        setting: 'Outdoors among fields or forests',
+        lighting: 'Warm natural light',
+        palette: 'Earthy tones',
+        mood: 'Relaxed, free-spirited and artistic',
+    }),
+    builtInPreset('streetwear', 'Streetwear', 'style', {
+        setting: 'City streets with graffiti, neon lights or gritty textures',
+        mood: 'Dynamic, edgy and contemporary',
+    }),
+    builtInPreset('close-up-hand', 'Close-up Hand Shot', 'suggested', {
+        framing: 'Detailed close-up of the model\'s hand, elegantly displaying the accessory',
+        lens: 'Shallow depth of field with a blurred, sophisticated background',
+    }, { categories: HAND_CATEGORIES, scope: 'single' }),
+    builtInPreset('lifestyle-wrist', 'Lifestyle Wrist Shot', 'suggested', {
+        framing: 'Lifestyle shot of the model\'s wrist and hand, with the accessory as the focal point',
+        setting: 'A natural, everyday setting like a cafe',
+    }, { categories: HAND_CATEGORIES, scope: 'single' }),
+    builtInPreset('elegant-portrait', 'Elegant Portrait', 'suggested', {
+        framing: 'Close-up portrait focusing on the neck and face to highlight the accessory',
+        lighting: 'Soft, flattering light',
+        demographics: 'Female model',
+    }, { categories: NECK_FACE_CATEGORIES, scope: 'single' }),
+    builtInPreset('candid-profile', 'Candid Profile Shot', 'suggested', {
+        framing: 'Profile shot showcasing the accessory from the side',
+        pose: 'Candid and natural',
+        setting: 'A beautiful outdoor or indoor location',
+    }, { categories: NECK_FACE_CATEGORIES, scope: 'single' }),
+    builtInPreset('full-body-look', 'Full Body Look', 'suggested', {
+        framing: 'Full-body fashion shot',
+        setting: 'A city street',
+        props: 'The item styled as part of a complete, stylish outfit',
+    }, { categories: APPAREL_CATEGORIES, scope: 'single' }),
+    builtInPreset('lifestyle-context', 'Lifestyle Context', 'suggested', {
+        pose: 'Relaxed and candid',
+        setting: 'A relatable, everyday environment like a park or coffee shop',
+    }, { categories: APPAREL_CATEGORIES, scope: 'single' }),
+    builtInPreset('complete-look', 'Complete Look', 'suggested', {
+        framing: 'Full-body shot, head to toe, so every piece of the outfit, including any shoes, is clearly visible',
+        setting: 'A city street',
+    }, { scope: 'outfit' }),
+    builtInPreset('styled-hands', 'Styled Hands', 'suggested', {
+        framing: 'Three-quarter shot with the hands clearly visible to feature the accessory alongside the outfit',
+        pose: 'Relaxed, one hand raised near the collar or resting on a pocket',
+    }, { categories: HAND_CATEGORIES, scope: 'outfit' }),
+    builtInPreset('portrait-layers', 'Portrait & Layers', 'suggested', {
+        framing: 'Waist-up portrait showing the jewelry at the neck and face together with the top layers of the outfit',
+        lighting: 'Soft, flattering light',
+    }, { categories: NECK_FACE_CATEGORIES, scope: 'outfit' }),
+    builtInPreset('editorial-stride', 'Editorial Stride', 'suggested', {
+        pose: 'Mid-stride, walking toward camera',
+        lens: '85mm, shallow depth of field',
+    }, { scope: 'outfit' }),
+];
+
+// A single item matches 'single' presets, an outfit 'outfit' ones; any category of any
+// analyzed piece can satisfy a category restriction.
+const presetMatches = (preset: StylePreset, items: ItemAnalysis[], shotType: ShotType): boolean => {
+    if (preset.shotTypes.length > 0 && !preset.shotTypes.includes(shotType)) return false;
+    if (preset.scope !== 'any' && preset.scope !== (items.length > 1 ? 'outfit' : 'single')) return false;
+    return preset.categories.length === 0 || items.some(item => item.categories.some(category => preset.categories.includes(category)));
+};
+
+const getStylePresets = (presets: StylePreset[], items: (ItemAnalysis | null)[], shotType: ShotType): StylePreset[] => {
+    const known = items.filter((item): item is ItemAnalysis => !!item);
+    return presets.filter(preset => preset.kind === 'style' && presetMatches(preset, known, shotType));
+};
+
+// Suggestions follow the combination of categories: a single item gets presets for its category,
+// an outfit gets framings that keep every kind of piece in shot.
+const getSuggestedPresets = (presets: StylePreset[], items: (ItemAnalysis | null)[], shotType: ShotType): StylePreset[] => {
+    const known = items.filter((item): item is ItemAnalysis => !!item);
+    if (known.length === 0) return [];
+    return presets.filter(preset => preset.kind === 'suggested' && presetMatches(preset, known, shotType));
+};
+
+// Product shots apply to accessories, hats, shoes and outfits (as a flat-lay); other garments are always shot on a model.
+const PRODUCT_SHOT_CATEGORIES = [...ACCESSORY_CATEGORIES, 'Hat', 'Shoes'];
+
+const supportsProductShot = (itemCategory: string | null) => !!itemCategory && PRODUCT_SHOT_CATEGORIES.includes(itemCategory);
+
+const resolveShotType = (shotType: ShotType, itemCategory: string | null, isOutfit = false): ShotType =>
+    shotType === 'product' && (isOutfit || supportsProductShot(itemCategory)) ? 'product' : 'model';
+
+
+// --- Brand Kits ---
+// A kit holds a brand's standing rules. The kits selected for a project are stated in every
+// generation and edit prompt, and a kit's logo is stamped onto downloads in its safe zone.
+type SafeZone = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+const SAFE_ZONE_LABELS: Record<SafeZone, string> = {
+    'top-left': 'Top Left',
+    'top-right': 'Top Right',
+    'bottom-left': 'Bottom Left',
+    'bottom-right': 'Bottom Right',
+};
+
+interface BrandRules {
+    // Hex colors the scene is built around.
+    palette: string[];
+    bannedSettings: string[];
+    // Casting requirements for generated models; not used for product shots.
+    diversity: string;
+    toneWords: string[];
+    // Corner kept clear of faces and the product so a logo can sit there.
+    logoSafeZone: SafeZone | null;
+    logo: string | null;
+    // Logo width as a fraction of the image width.
+    logoScale: number;
+    logoOpacity: number;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onFileSelect, selectedFile, onFileRemove, title, description }) => {
-    const [preview, setPreview] = useState<string | null>(null);
+interface BrandKitRevision extends BrandRules {
+    version: number;
+    savedAt: number;
+}
 
-    useEffect(() => {
-        if (!selectedFile) {
-            setPreview(null);
-            return;
-        }
-        const objectUrl = URL.createObjectURL(selectedFile);
-        setPreview(objectUrl);
-        return () => URL.revokeObjectURL(objectUrl);
-    }, [selectedFile]);
+interface BrandKit extends BrandRules {
+    id: string;
+    name: string;
+    version: number;
+    updatedAt: number;
+    // Earlier versions, newest first, so a change can be rolled back.
+    revisions: BrandKitRevision[];
+}
 
-    const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        e.stopPropagation();
-        if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            onFileSelect(e.dataTransfer.files[0]);
-        }
-    }, [onFileSelect]);
+const MAX_BRAND_KIT_REVISIONS = 10;
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            onFileSelect(e.target.files[0]);
-        }
-    };
+const createBrandKit = (): BrandKit => ({
+    id: createId(),
+    name: '',
+    palette: [],
+    bannedSettings: [],
+    diversity: '',
+    toneWords: [],
+    logoSafeZone: null,
+    logo: null,
+    logoScale: 0.15,
+    logoOpacity: 0.9,
+    version: 0,
+    updatedAt: Date.now(),
+    revisions: [],
+});
 
-    return (
-        <div className="input-group">
-            <label>{title}</label>
-            <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>{description}</span></p>
-            {!preview ? (
-                 <div
-                    className="drop-zone"
-                    onDragOver={(e) => e.preventDefault()}
-                    onDrop={handleDrop}
-                    onClick={() => document.getElementById(title)?.click()}
-                >
-                    <input type="file" id={title} accept="image/*" onChange={handleChange} hidden/>
-                    <p>Drag & drop image here, or click to select</p>
-                </div>
-            ) : (
-                <div className="image-preview">
-                    <img src={preview} alt="Preview" />
-                    <button className="remove-btn" onClick={onFileRemove} aria-label="Remove image">
-                        &times;
-                    </button>
-                </div>
-            )}
-        </div>
-    );
+const getBrandRules = ({ palette, bannedSettings, diversity, toneWords, logoSafeZone, logo, logoScale, logoOpacity }: BrandRules): BrandRules =>
+    ({ palette, bannedSettings, diversity, toneWords, logoSafeZone, logo, logoScale, logoOpacity });
+
+// Saving changed rules bumps the version and keeps the previous rules as a revision; renaming alone doesn't.
+const reviseBrandKit = (previous: BrandKit | undefined, draft: BrandKit): BrandKit => {
+    const now = Date.now();
+    if (!previous) return { ...draft, version: 1, updatedAt: now, revisions: [] };
+    if (JSON.stringify(getBrandRules(previous)) === JSON.stringify(getBrandRules(draft))) return { ...draft, updatedAt: now };
+    const revision: BrandKitRevision = { ...getBrandRules(previous), version: previous.version, savedAt: previous.updatedAt };
+    return { ...draft, version: previous.version + 1, updatedAt: now, revisions: [revision, ...previous.revisions].slice(0, MAX_BRAND_KIT_REVISIONS) };
 };
 
+const unique = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
 
-const App: React.FC = () => {
-    const [heroItem, setHeroItem] = useState<File | null>(null);
-    const [inspirationPhoto, setInspirationPhoto] = useState<File | null>(null);
-    const [stylePrompt, setStylePrompt] = useState<string>('');
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
-    const [itemCategory, setItemCategory] = useState<string | null>(null);
-    const [isIdentifying, setIsIdentifying] = useState<boolean>(false);
-    const [isDownloadMenuOpen, setDownloadMenuOpen] = useState(false);
-    const [shotType, setShotType] = useState<'model' | 'product'>('model');
+const buildBrandKitPrompt = (kits: BrandKit[], isProductShot: boolean): string => {
+    const palette = unique(kits.flatMap(kit => kit.palette));
+    const banned = unique(kits.flatMap(kit => kit.bannedSettings));
+    const diversity = isProductShot ? [] : unique(kits.map(kit => kit.diversity));
+    const tone = unique(kits.flatMap(kit => kit.toneWords));
+    const zones = [...new Set(kits.map(kit => kit.logoSafeZone).filter((zone): zone is SafeZone => !!zone))];
 
-    const accessoryCategories = ['Watch', 'Bracelet', 'Ring', 'Necklace', 'Earrings', 'Handbag'];
+    const rules: string[] = [];
+    if (palette.length > 0) rules.push(`**Brand palette:** Build the set, backdrop, props, and styling around ${palette.join(', ')}. The hero item keeps its own colors.`);
+    if (banned.length > 0) rules.push(`**Banned settings:** NEVER show ${banned.join('; ')}.`);
+    diversity.forEach(requirement => rules.push(`**Model casting:** ${requirement}`));
+    if (tone.length > 0) rules.push(`**Tone:** The image must feel ${tone.join(', ')}.`);
+    if (zones.length > 0) {
+        const corners = zones.map(zone => SAFE_ZONE_LABELS[zone].toLowerCase()).join(' and ');
+        rules.push(`**Logo-safe zone:** Keep the ${corners} corner${zones.length > 1 ? 's' : ''} of the frame (about a fifth of its width) free of faces, the hero item, and busy detail. A logo is placed there later.`);
+    }
+    if (rules.length === 0) return '';
+    return `
 
-    // Identify Item Category when Hero Item is uploaded
-    useEffect(() => {
-        const identifyItemCategory = async (file: File) => {
-            if (!ai) {
-                setError(apiKeyError);
-                return;
-            }
-            setIsIdentifying(true);
-            setItemCategory(null);
-            setShotType('model'); // Reset shot type on new item
-            try {
-                const imagePart = await fileToGenerativePart(file);
-                const prompt = `Analyze the image and identify the primary clothing or accessory item. Respond with ONLY one of the following categories that best fits the item: T-Shirt, Top, Jacket, Pants, Dress, Watch, Bracelet, Ring, Necklace, Earrings, Hat, Shoes, Handbag. If it doesn't fit, respond with 'Other'.`;
-                
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: { parts: [{text: prompt}, imagePart] },
-                });
-    
-                const category = response.text.trim();
-                setItemCategory(category);
-    
-            } catch (err) {
-                console.error("Error identifying item:", err);
-                setItemCategory('Other'); // Fail gracefully
-            } finally {
-                setIsIdentifying(false);
-            }
-        };
+## BRAND GUIDELINES ##
+These rules come from the brand kit${kits.length > 1 ? 's' : ''} ${kits.map(kit => `"${kit.name}"`).join(', ')}. They apply to every image and override the inspiration photo and the creative brief where they conflict.
+${rules.map(rule => `- ${rule}`).join('\n')}
+`;
+};
 
-        if (heroItem) {
-            identifyItemCategory(heroItem);
-        } else {
-            setItemCategory(null);
-        }
-    }, [heroItem]);
+// The first selected kit with a logo provides the watermark.
+const getBrandLogo = (kits: BrandKit[]): BrandKit | null => kits.find(kit => kit.logo) ?? null;
 
+const drawBrandLogo = async (ctx: CanvasRenderingContext2D, width: number, height: number, kit: BrandKit) => {
+    const logo = await loadImage(kit.logo!);
+    const logoWidth = width * kit.logoScale;
+    const logoHeight = logoWidth * logo.naturalHeight / logo.naturalWidth;
+    const margin = Math.round(Math.min(width, height) * 0.03);
+    const zone = kit.logoSafeZone ?? 'bottom-right';
+    const x = zone.endsWith('left') ? margin : width - logoWidth - margin;
+    const y = zone.startsWith('top') ? margin : height - logoHeight - margin;
+    ctx.save();
+    ctx.globalAlpha = kit.logoOpacity;
+    ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+    ctx.restore();
+};
 
-    const handleGenerate = async () => {
-        if (!ai) {
-            setError(apiKeyError);
-            setIsLoading(false);
-            return;
-        }
-        if (!heroItem) return;
+// Full-size downloads outside the export panel.
+const applyBrandLogo = async (image: string, kit: BrandKit): Promise<Blob> => {
+    const source = await loadImage(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    await drawBrandLogo(ctx, canvas.width, canvas.height, kit);
+    return canvasToBlob(canvas, 'image/png');
+};
 
-        setIsLoading(true);
-        setError(null);
 
-        try {
-            const parts: Part[] = [];
-            const isProductShot = shotType === 'product' && itemCategory && accessoryCategories.includes(itemCategory);
-            let activeSystemPrompt = isProductShot ? PRODUCT_SHOT_SYSTEM_PROMPT : MODEL_SHOT_SYSTEM_PROMPT;
-
-            if (generatedImage) {
-                 const getImageDimensions = (src: string): Promise<{ width: number; height: number }> =>
-                    new Promise((resolve, reject) => {
-                        const img = new Image();
-                        img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
-                        img.onerror = (err) => reject(err);
-                        img.src = src;
-                    });
-            
-                const { width, height } = await getImageDimensions(generatedImage);
-
-                const response = await fetch(generatedImage);
-                const blob = await response.blob();
-                const previousLookbookFile = new File([blob], "previous_lookbook.png", { type: blob.type });
-
-                const editingPrompt = `${activeSystemPrompt}\n\n## EDITING MODE: AESTHETIC TRANSFORMATION ##\nYou are now in editing mode. Your task is to apply a NEW creative direction to a previously generated image.\n\n**HIERARCHY OF EDITS (MOST IMPORTANT FIRST):**\n\n1.  **AESTHETIC INSPIRATION PHOTO:** THIS IS YOUR #1 PRIORITY. If an 'AESTHETIC INSPIRATION PHOTO' is provided, you MUST completely transform the 'IMAGE TO EDIT' to match its style, mood, color palette, lighting, and even the general setting. This overrides the original image's aesthetic entirely. (This rule is ignored if you are in Product Shot mode, where the setting is guided by the Creative Brief).\n\n2.  **CREATIVE BRIEF (Text):** This text dictates the scene and action. It works with the 'AESTHETIC INSPIRATION PHOTO' to define the new scene.\n\n3.  **PRESERVATION OF IDENTITY:** While transforming the aesthetic, you MUST preserve the face, body, and identity of the model from the 'IMAGE TO EDIT'. DO NOT CHANGE THE PERSON. (This rule is ignored if you are in Product Shot mode).\n\n4.  **HERO ITEM INTEGRITY:** The 'HERO ITEM' must remain accurate, using the 'HERO ITEM REFERENCE' as a guide.\n\n5.  **ASPECT RATIO LOCK:** The output image MUST EXACTLY MATCH the aspect ratio of the 'IMAGE TO EDIT' (original dimensions were ${width}x${height}px).\n\n**IGNORE THE ORIGINAL AESTHETIC:**\nYou are not making a 'subtle improvement'. You are performing a complete aesthetic overhaul based on the new inputs. The original 'IMAGE TO EDIT' is just a canvas for the model's identity and the hero item.\n`;
-    
-                parts.push({ text: editingPrompt });
+// --- Aspect Ratio ---
+const getAspectValue = (ratio: AspectRatio) => {
+    const [width, height] = ratio.split(':').map(Number);
+    return width / height;
+};
 
-                parts.push({ text: '\n\n---\n\n**CREATIVE DIRECTION FOR REFINEMENT**' });
-                parts.push({ text: '\n\n**INPUT: HERO ITEM REFERENCE**' });
-                parts.push(await fileToGenerativePart(heroItem));
+// The output size the model is asked for, with the long side at the model's native 1024px.
+const getAspectDimensions = (ratio: AspectRatio) => {
+    const value = getAspectValue(ratio);
+    return value >= 1
+        ? { width: 1024, height: Math.round(1024 / value) }
+        : { width: Math.round(1024 * value), height: 1024 };
+};
 
-                if (inspirationPhoto) {
-                    parts.push({ text: '\n\n**INPUT: AESTHETIC INSPIRATION PHOTO**' });
-                    parts.push(await fileToGenerativePart(inspirationPhoto));
-                }
+const buildAspectRatioPrompt = (ratio: AspectRatio) => {
+    const { width, height } = getAspectDimensions(ratio);
+    const orientation = width > height ? 'landscape' : width < height ? 'portrait' : 'square';
+    return `
 
-                const defaultRefinePrompt = 'Make a subtle improvement to the overall aesthetic.';
-                parts.push({ text: `\n\n**INPUT: CREATIVE BRIEF**\n"${stylePrompt || defaultRefinePrompt}"` });
-
-                parts.push({ text: '\n\n---\n\n**IMAGE TO BE EDITED**' });
-                parts.push({ text: '\n\n**INPUT: IMAGE TO EDIT**' });
-                parts.push(await fileToGenerativePart(previousLookbookFile));
-
-                parts.push({ text: '\n\n---\n\n**ACTION: Generate the refined image now based on the new creative direction and the image to be edited.**' });
-                
-            } else {
-                parts.push({ text: activeSystemPrompt });
-                parts.push({ text: '\n\n---\n\n**INPUT: HERO ITEM PHOTO**' });
-                parts.push(await fileToGenerativePart(heroItem));
-                if (inspirationPhoto) {
-                    parts.push({ text: '\n\n**INPUT: AESTHETIC INSPIRATION PHOTO**' });
-                    parts.push(await fileToGenerativePart(inspirationPhoto));
-                }
-                const defaultPrompt = isProductShot
-                    ? 'A suitable product shot scene.'
-                    : 'A suitable fashion lookbook scene.';
+## OUTPUT FRAME ##
+- The output image MUST have a ${ratio} ${orientation} aspect ratio (about ${width}x${height}px).
+- Compose the scene for this frame from the start: the hero item MUST be fully visible and never cut off by the frame edges.
+`;
+};
 
-                parts.push({ text: `\n\n**INPUT: CREATIVE BRIEF**\n"${stylePrompt || defaultPrompt}"` });
-                parts.push({ text: '\n\n---\n\n**ACTION: Generate the final image now based on all instructions and inputs provided.**' });
-            }
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
 
-            const imagePart = response.candidates?.[0]?.content.parts.find(part => part.inlineData);
+// --- Shot List ---
+// A coordinated set of angles of one hero item for a product page. The first model shot sets the
+// scene; every other shot is generated against it so the model, styling and lighting match.
+type SetShotId = 'front' | 'back' | 'side' | 'detail' | 'product';
 
-            if (imagePart && imagePart.inlineData) {
-                const base64Image = imagePart.inlineData.data;
-                const imageUrl = `data:${imagePart.inlineData.mimeType};base64,${base64Image}`;
-                setGeneratedImage(imageUrl);
-            } else {
-                throw new Error("The Alchemist couldn't generate an image. Try refining your inputs.");
-            }
+interface SetShotDefinition {
+    id: SetShotId;
+    label: string;
+    shotType: ShotType;
+    direction: string;
+    // Close-ups show only part of the item, so a low fidelity score isn't worth retrying.
+    isCloseUp?: boolean;
+}
 
-        } catch (err) {
-            console.error(err);
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
-        } finally {
-            setIsLoading(false);
-        }
-    };
+const SET_SHOTS: SetShotDefinition[] = [
+    { id: 'front', label: 'Front', shotType: 'model', direction: 'Front view, full body. The model faces the camera straight on and the whole hero item is visible.' },
+    { id: 'back', label: 'Back', shotType: 'model', direction: 'Back view, full body. The model faces directly away from the camera so the back of the hero item is fully visible.' },
+    { id: 'side', label: 'Side Profile', shotType: 'model', direction: 'Side profile, full body. The model is turned 90 degrees to the camera, showing the silhouette and side of the hero item.' },
+    { id: 'detail', label: 'Detail', shotType: 'model', direction: 'Close-up detail. Crop tightly on the hero item as worn so its fabric texture, stitching, and hardware fill the frame; the face may be out of frame.', isCloseUp: true },
+    { id: 'product', label: 'Product Only', shotType: 'product', direction: 'The hero item alone, front on and fully visible, with no model.' },
+];
 
-    const handleStartOver = () => {
-        setGeneratedImage(null);
-        setError(null);
-    };
+// Extra photos of the hero item, such as its back or a fabric detail.
+interface ItemReference {
+    label: string;
+    file: File;
+}
 
-    const handleDownload = (aspect: '1:1' | '9:16' | '16:9') => {
-        if (!generatedImage) return;
-        const image = new Image();
-        image.crossOrigin = 'anonymous'; // Prevents canvas tainting with external images
-        image.src = generatedImage;
-    
-        image.onload = () => {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return;
-    
-            const sourceWidth = image.naturalWidth;
-            const sourceHeight = image.naturalHeight;
-            const sourceAspect = sourceWidth / sourceHeight;
-    
-            let targetAspect;
-            if (aspect === '16:9') targetAspect = 16 / 9;
-            else if (aspect === '9:16') targetAspect = 9 / 16;
-            else targetAspect = 1; // 1:1
-    
-            let sx = 0, sy = 0, sWidth = sourceWidth, sHeight = sourceHeight;
-    
-            if (sourceAspect > targetAspect) {
-                // Source is wider than target, crop width (pillarbox)
-                sWidth = sourceHeight * targetAspect;
-                sx = (sourceWidth - sWidth) / 2;
-            } else if (sourceAspect < targetAspect) {
-                // Source is taller than target, crop height (letterbox)
-                sHeight = sourceWidth / targetAspect;
-                sy = (sourceHeight - sHeight) / 2; // Default to center
-            }
-    
-            // For landscape crops of portraits, bias the crop upwards to capture the head.
-            if (aspect === '16:9' && sourceAspect < targetAspect) {
-                sy = (sourceHeight - sHeight) * 0.3; // Places crop in the top third.
-            }
-    
-            canvas.width = sWidth;
-            canvas.height = sHeight;
-    
-            ctx.drawImage(image, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
-    
-            const link = document.createElement('a');
-            link.download = `lookbook-${aspect.replace(':', 'x')}.png`;
-            link.href = canvas.toDataURL('image/png');
-            link.click();
-        };
-    
-        image.onerror = () => {
-            setError("Could not download image due to an error loading it.");
+interface SetShotRequest {
+    shot: SetShotDefinition;
+    // An existing shot from the same set to match; null for the shot that sets the scene.
+    continuityImage: string | null;
+    references: ItemReference[];
+}
+
+const buildSetShotPrompt = ({ shot, continuityImage }: SetShotRequest) => {
+    const continuity = !continuityImage
+        ? '- Later shots in the set will be matched to this one, so keep the scene and lighting simple to reproduce from other angles.'
+        : shot.shotType === 'product'
+            ? "- The 'SET CONTINUITY REFERENCE' is another shot from the same set. Match its location or backdrop, lighting, and color grade, but DO NOT include its model."
+            : "- The 'SET CONTINUITY REFERENCE' is another shot from the same set. Match it exactly: the same model (face, hair, makeup, body), the same full styling, the same location, lighting, and color grade. Only the camera angle and framing change.";
+    return `
+
+## SHOT LIST: COORDINATED SET ##
+- This image is one shot in a coordinated set of the hero item for a product page.
+${continuity}
+- SHOT ANGLE: ${shot.direction}
+- The shot angle overrides any framing or pose in the creative brief. If a shot mode is given, keep its framing rule for this angle.
+- Extra hero item reference photos show parts of the item the main photo may not; use them for whatever this angle reveals.
+`;
+};
+
+
+// --- Usage Tracking ---
+// Pricing, budgets and reports live in usage.ts; here calls are measured and the log is kept.
+const BATCH_USAGE_SCOPE: UsageScope = { source: 'batch', projectId: null, projectName: null };
+const SHOT_LIST_USAGE_SCOPE: UsageScope = { source: 'shotlist', projectId: null, projectName: null };
+
+const BUDGET_SETTINGS_KEY = 'alchemist:budget';
+const USAGE_USER_KEY = 'alchemist:usageUser';
+
+const loadBudgetSettings = (): BudgetSettings => {
+    try {
+        return readBudgetSettings(JSON.parse(localStorage.getItem(BUDGET_SETTINGS_KEY) ?? '{}'));
+    } catch {
+        return DEFAULT_BUDGET_SETTINGS;
+    }
+};
+
+const loadUsageUser = () => localStorage.getItem(USAGE_USER_KEY) ?? '';
+
+// The log is shared by every mode, so it lives outside React; components subscribe to changes.
+let usageRecords: UsageRecord[] = [];
+let usageLoad: Promise<void> | null = null;
+const usageListeners = new Set<(records: UsageRecord[]) => void>();
+
+const setUsageRecords = (records: UsageRecord[]) => {
+    usageRecords = records;
+    usageListeners.forEach(listener => listener(records));
+};
+
+const loadUsageLog = (): Promise<void> => usageLoad ??= listUsageRecords()
+    .then(stored => setUsageRecords([...stored, ...usageRecords]))
+    .catch(err => console.error("Error loading the usage log:", err));
+
+const useUsageRecords = (): UsageRecord[] => {
+    const [records, setRecords] = useState<UsageRecord[]>(usageRecords);
+
+    useEffect(() => {
+        usageListeners.add(setRecords);
+        loadUsageLog();
+        return () => { usageListeners.delete(setRecords); };
+    }, []);
+
+    return records;
+};
+
+// Hard limits only block image calls; analysis and fidelity checks cost a fraction of a cent.
+// A blocked call is still logged, with a 'budget' outcome and no cost.
+const checkBudget = async () => {
+    const { period, hardLimit } = loadBudgetSettings();
+    if (hardLimit === null) return;
+    await loadUsageLog();
+    const spent = getPeriodSpend(usageRecords, period);
+    if (spent >= hardLimit) {
+        throw createModelError('budget', {}, `The ${period === 'day' ? 'daily' : 'monthly'} budget of ${formatCost(hardLimit)} has been reached (${formatCost(spent)} spent). Raise the hard limit under Usage to keep generating.`);
+    }
+};
+
+const trackUsage = async <T,>(operation: UsageOperation, scope: UsageScope, inputs: Part[], call: (options: CallOptions) => Promise<T>, options?: CallOptions): Promise<T> => {
+    const reports: ModelUsage[] = [];
+    const startedAt = Date.now();
+    let outcome: UsageOutcome = 'success';
+    try {
+        if (operation === 'generation' || operation === 'refinement') await checkBudget();
+        return await call({ ...options, onUsage: usage => reports.push(usage) });
+    } catch (err) {
+        outcome = err instanceof ModelError ? err.kind : 'error';
+        throw err;
+    } finally {
+        const images = measureImages(inputs);
+        const record: UsageRecord = {
+            ...scope,
+            id: createId(),
+            timestamp: startedAt,
+            operation,
+            ...totalReports(reports),
+            user: loadUsageUser() || 'Unnamed',
+            inputImages: images.count,
+            inputImageBytes: images.bytes,
+            latencyMs: Date.now() - startedAt,
+            outcome,
         };
-    
-        setDownloadMenuOpen(false);
-    };
+        setUsageRecords([...usageRecords, record]);
+        saveUsageRecord(record).catch(err => console.error("Error saving usage:", err));
+    }
+};
 
-    const staticPresets = {
-        'Vintage': 'A photograph with a vintage, film-like quality, featuring muted colors and soft focus. The scene has a nostalgic, retro feel.',
-        'Modern': 'A clean, minimalist photograph with sharp lines, a neutral color palette, and a focus on modern architecture or simple backgrounds.',
-        'Bohemian': 'A warm, free-spirited photograph with earthy tones, natural light, and outdoor elements like fields or forests. The mood is relaxed and artistic.',
-        'Streetwear': 'A dynamic, urban photograph taken on city streets, featuring graffiti, neon lights, or gritty textures. The style is edgy and contemporary.',
-    };
+// The shared provider with each call logged against `scope`.
+const getTrackedProvider = (scope: UsageScope = { source: 'single', projectId: null, projectName: null }): ImageProvider => ({
+    ...provider,
+    analyzeItem: (request, options) => trackUsage('classification', scope, [request.image], o => provider.analyzeItem(request, o), options),
+    checkFidelity: (request, options) => trackUsage('inspection', scope, [request.reference, request.image], o => provider.checkFidelity(request, o), options),
+    generateImage: (request, options) => trackUsage('generation', scope, request.parts, o => provider.generateImage(request, o), options),
+    editImage: (request, options) => trackUsage('refinement', scope, request.parts, o => provider.editImage(request, o), options),
+});
 
-    const suggestedPresets: { [key: string]: { [key: string]: string } } = {
-        'Hand': {
-            'Close-up Hand Shot': 'A detailed close-up shot of a model\'s hand, elegantly displaying the accessory against a blurred, sophisticated background.',
-            'Lifestyle Wrist Shot': 'A lifestyle photo of a model\'s wrist and hand, with the accessory as the focal point, in a natural, everyday setting like a cafe.',
-        },
-        'Neck/Face': {
-            'Elegant Portrait': 'A close-up portrait of a female model, focusing on the neck and face to highlight the accessory with soft, flattering light.',
-            'Candid Profile Shot': 'A candid-style profile shot of a model, showcasing the accessory from the side in a beautiful outdoor or indoor location.',
-        },
-        'Apparel': {
-            'Full Body Look': 'A full-body fashion shot of a model wearing the item as part of a complete, stylish outfit on a city street.',
-            'Lifestyle Context': 'A relaxed, candid-style photo of a model wearing the clothing item in a relatable, everyday environment like a park or coffee shop.',
-        },
+
+// --- Generation ---
+const analyzeItem = async (file: File, signal?: AbortSignal, usage?: UsageScope): Promise<ItemAnalysis> => {
+    const image = await fileToGenerativePart(file);
+    return parseItemAnalysis(await getTrackedProvider(usage).analyzeItem({ prompt: ITEM_ANALYSIS_PROMPT, image }, { signal }));
+};
+
+// Analysis failures shouldn't block generation: fall back to 'Other' with the reason, and let the
+// user correct it. Cancelling still rejects.
+const analyzeItemOrFallback = (file: File, signal?: AbortSignal, usage?: UsageScope): Promise<ItemAnalysis> =>
+    analyzeItem(file, signal, usage).catch(err => {
+        if (isCancelled(err)) throw err;
+        console.error("Error analyzing item:", err);
+        return { ...createBasicAnalysis('Other', 'failed'), error: err instanceof Error ? err.message : undefined };
+    });
+
+interface LookbookRequest {
+    heroItem: File;
+    inspirationPhoto: File | null;
+    stylePrompt: string;
+    shotType: ShotType;
+    itemCategory: string | null;
+    // Verified attributes of the hero item, stated in the prompt to reinforce its fidelity.
+    itemAnalysis?: ItemAnalysis | null;
+    // When set, the request refines this image instead of generating from scratch.
+    baseImage?: string | null;
+    // Locks the model's identity to a saved talent; ignored for product shots.
+    talent?: TalentProfile | null;
+    // Further pieces styled together with the hero item in one shot.
+    outfitItems?: OutfitItem[];
+    // Frame for fresh generations; refinements keep the frame of the image they edit.
+    aspectRatio?: AspectRatio | null;
+    // Set for shots in a shot list; only used for fresh generations.
+    setShot?: SetShotRequest;
+    brandKits?: BrandKit[];
+    // Where the call is logged in the usage log.
+    usage?: UsageScope;
+    signal?: AbortSignal;
+}
+
+const generateLookbook = async ({ heroItem, inspirationPhoto, stylePrompt, shotType, itemCategory, itemAnalysis, baseImage, talent, outfitItems = [], aspectRatio, setShot, brandKits = [], usage, signal }: LookbookRequest): Promise<string> => {
+    const parts: Part[] = [];
+    const heroItemPart = await fileToGenerativePart(heroItem);
+    const isOutfit = outfitItems.length > 0;
+    // A product page needs a product-only shot of any item, so set shots keep their own shot type.
+    const isProductShot = (setShot ? shotType : resolveShotType(shotType, itemCategory, isOutfit)) === 'product';
+    let activeSystemPrompt = isProductShot ? PRODUCT_SHOT_SYSTEM_PROMPT : MODEL_SHOT_SYSTEM_PROMPT;
+    const shotMode = !isProductShot && !isOutfit ? CATEGORY_SHOT_MODES[itemCategory ?? ''] : undefined;
+    if (shotMode) activeSystemPrompt += `\n## SHOT MODE: ${shotMode.label.toUpperCase()} ##\n- ${shotMode.framing}\n`;
+    if (isOutfit) activeSystemPrompt += buildOutfitPrompt(itemCategory, outfitItems, isProductShot);
+    if (itemAnalysis) activeSystemPrompt += buildItemSpecPrompt(itemAnalysis);
+    activeSystemPrompt += buildBrandKitPrompt(brandKits, isProductShot);
+
+    const pushOutfitItems = async () => {
+        for (const [index, item] of outfitItems.entries()) {
+            parts.push({ text: `\n\n**INPUT: OUTFIT ITEM ${index + 1} PHOTO** (${item.category ?? 'Item'}, ${item.role})` });
+            parts.push(await fileToGenerativePart(item.file));
+        }
     };
+    const castTalent = isProductShot ? null : talent;
 
-    const getSuggestedPresets = () => {
-        if (!itemCategory) return null;
-        if (['Watch', 'Bracelet', 'Ring'].includes(itemCategory)) return suggestedPresets['Hand'];
-        if (['Necklace', 'Earrings'].includes(itemCategory)) return suggestedPresets['Neck/Face'];
-        if (['T-Shirt', 'Top', 'Jacket', 'Pants', 'Dress', 'Hat', 'Shoes', 'Handbag'].includes(itemCategory)) return suggestedPresets['Apparel'];
-        return null;
+    const pushTalentReferences = () => {
+        if (!castTalent) return;
+        parts.push({ text: `\n\n**INPUT: CAST TALENT REFERENCE** (${castTalent.name})` });
+        castTalent.references.forEach(reference => parts.push(dataUrlToGenerativePart(reference)));
     };
+
+    if (baseImage) {
+         const getImageDimensions = (src: string): Promise<{ width: number; height: number }> =>
+            new Promise((resolve, reject) => {
+                const img = new Image();
+                img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+                img.onerror = (err) => reject(err);
+                img.src = src;
+            });
     
-    const buttonText = generatedImage ? 'Refine Lookbook' : 'Create Lookbook';
-    const loadingButtonText = generatedImage ? 'Refining...' : 'Creating...';
-    const currentSuggestedPresets = getSuggestedPresets();
+        const { width, height } = await getImageDimensions(baseImage);
 
-    return (
-        <div className="app-container">
-            <aside className={`controls-panel ${isLoading ? 'loading' : ''}`}>
-                <header className="header">
-                    <h1>The Alchemist's Studio</h1>
-                    <p>Generate a stunning lookbook photograph from your clothing item.</p>
-                </header>
+        const response = await fetch(baseImage);
+        const blob = await response.blob();
+        const previousLookbookFile = new File([blob], "previous_lookbook.png", { type: blob.type });
 
-                <ImageUploader
-                    title="1. Hero Item"
-                    description="(Required) The piece of clothing to feature."
-                    selectedFile={heroItem}
-                    onFileSelect={setHeroItem}
-                    onFileRemove={() => setHeroItem(null)}
-                />
+        const editingPrompt = `${activeSystemPrompt}\n\n## EDITING MODE: AESTHETIC TRANSFORMATION ##\nYou are now in editing mode. Your task is to apply a NEW creative direction to a previously generated image.\n\n**HIERARCHY OF EDITS (MOST IMPORTANT FIRST):**\n\n1.  **AESTHETIC INSPIRATION PHOTO:** THIS IS YOUR #1 PRIORITY. If an 'AESTHETIC INSPIRATION PHOTO' is provided, you MUST completely transform the 'IMAGE TO EDIT' to match its style, mood, color palette, lighting, and even the general setting. This overrides the original image's aesthetic entirely. (This rule is ignored if you are in Product Shot mode, where the setting is guided by the Creative Brief).\n\n2.  **CREATIVE BRIEF (Text):** This text dictates the scene and action. It works with the 'AESTHETIC INSPIRATION PHOTO' to define the new scene.\n\n3.  **PRESERVATION OF IDENTITY:** While transforming the aesthetic, ${identityPreservationRule('IMAGE TO EDIT')} (This rule is ignored if you are in Product Shot mode).\n\n4.  **HERO ITEM INTEGRITY:** The 'HERO ITEM' must remain accurate, using the 'HERO ITEM REFERENCE' as a guide.\n\n5.  **ASPECT RATIO LOCK:** The output image MUST EXACTLY MATCH the aspect ratio of the 'IMAGE TO EDIT' (original dimensions were ${width}x${height}px).\n\n**IGNORE THE ORIGINAL AESTHETIC:**\nYou are not making a 'subtle improvement'. You are performing a complete aesthetic overhaul based on the new inputs. The original 'IMAGE TO EDIT' is just a canvas for the model's identity and the hero item.\n`;
 
-                <ImageUploader
-                    title="2. Visual Inspiration"
-                    description="(Optional) An image for style, mood, and lighting."
-                    selectedFile={inspirationPhoto}
-                    onFileSelect={setInspirationPhoto}
-                    onFileRemove={() => setInspirationPhoto(null)}
-                />
+        parts.push({ text: editingPrompt });
+        if (castTalent) parts.push({ text: buildTalentPrompt(castTalent) });
 
-                <div className="input-group">
-                    <label htmlFor="style-prompt">3. Creative Brief</label>
-                    <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>(Optional) Refine the scene with text.</span></p>
+        parts.push({ text: '\n\n---\n\n**CREATIVE DIRECTION FOR REFINEMENT**' });
+        parts.push({ text: '\n\n**INPUT: HERO ITEM REFERENCE**' });
+        parts.push(heroItemPart);
+        await pushOutfitItems();
+        pushTalentReferences();
 
-                    {isIdentifying && <p className="identifying-text">Identifying item...</p>}
-                    
-                    {itemCategory && accessoryCategories.includes(itemCategory) && (
-                        <div className="presets-container">
-                            <p className="presets-title">Shot Type</p>
-                            <div>
-                                <button 
-                                    className={`preset-btn ${shotType === 'model' ? 'active' : ''}`} 
-                                    onClick={() => setShotType('model')}>
-                                    On-Model
-                                </button>
-                                <button 
-                                    className={`preset-btn ${shotType === 'product' ? 'active' : ''}`} 
-                                    onClick={() => setShotType('product')}>
-                                    Product Shot
-                                </button>
-                            </div>
-                        </div>
-                    )}
+        if (inspirationPhoto) {
+            parts.push({ text: '\n\n**INPUT: AESTHETIC INSPIRATION PHOTO**' });
+            parts.push(await fileToGenerativePart(inspirationPhoto));
+        }
 
-                    {currentSuggestedPresets && shotType === 'model' && (
-                        <div className="presets-container">
-                            <p className="presets-title">Suggested Prompts</p>
-                            <div>
-                                {Object.entries(currentSuggestedPresets).map(([name, prompt]) => (
-                                    <button key={name} className="preset-btn" onClick={() => setStylePrompt(prompt)}>{name}</button>
-                                ))}
-                            </div>
-                        </div>
-                    )}
+        const defaultRefinePrompt = 'Make a subtle improvement to the overall aesthetic.';
+        parts.push({ text: `\n\n**INPUT: CREATIVE BRIEF**\n"${stylePrompt || defaultRefinePrompt}"` });
 
-                    <div className="presets-container">
-                        <p className="presets-title">Style Presets</p>
-                        <div>
-                            {Object.entries(staticPresets).map(([name, prompt]) => (
-                                <button key={name} className="preset-btn" onClick={() => setStylePrompt(prompt)}>{name}</button>
-                            ))}
-                        </div>
-                    </div>
+        parts.push({ text: '\n\n---\n\n**IMAGE TO BE EDITED**' });
+        parts.push({ text: '\n\n**INPUT: IMAGE TO EDIT**' });
+        const baseImagePart = await fileToGenerativePart(previousLookbookFile);
+        parts.push(baseImagePart);
 
-                    <textarea
-                        id="style-prompt"
-                        value={stylePrompt}
-                        onChange={(e) => setStylePrompt(e.target.value)}
-                        placeholder="e.g., 'A model on a neon-lit Tokyo street at night'"
-                    />
-                </div>
+        parts.push({ text: '\n\n---\n\n**ACTION: Generate the refined image now based on the new creative direction and the image to be edited.**' });
+
+        return getTrackedProvider(usage).editImage({ parts, heroItem: heroItemPart, baseImage: baseImagePart }, { signal });
+    } else {
+        parts.push({ text: activeSystemPrompt });
+        if (aspectRatio) parts.push({ text: buildAspectRatioPrompt(aspectRatio) });
+        if (setShot) parts.push({ text: buildSetShotPrompt(setShot) });
+        if (castTalent) parts.push({ text: buildTalentPrompt(castTalent) });
+        parts.push({ text: '\n\n---\n\n**INPUT: HERO ITEM PHOTO**' });
+        parts.push(heroItemPart);
+        for (const reference of setShot?.references ?? []) {
+            parts.push({ text: `\n\n**INPUT: HERO ITEM ${reference.label.toUpperCase()} REFERENCE**` });
+            parts.push(await fileToGenerativePart(reference.file));
+        }
+        await pushOutfitItems();
+        pushTalentReferences();
+        if (setShot?.continuityImage) {
+            parts.push({ text: '\n\n**INPUT: SET CONTINUITY REFERENCE**' });
+            parts.push(dataUrlToGenerativePart(setShot.continuityImage));
+        }
+        if (inspirationPhoto) {
+            parts.push({ text: '\n\n**INPUT: AESTHETIC INSPIRATION PHOTO**' });
+            parts.push(await fileToGenerativePart(inspirationPhoto));
+        }
+        const defaultPrompt = isProductShot
+            ? 'A suitable product shot scene.'
+            : 'A suitable fashion lookbook scene.';
+
+        parts.push({ text: `\n\n**INPUT: CREATIVE BRIEF**\n"${stylePrompt || defaultPrompt}"` });
+        parts.push({ text: '\n\n---\n\n**ACTION: Generate the final image now based on all instructions and inputs provided.**' });
+
+        return getTrackedProvider(usage).generateImage({ parts, heroItem: heroItemPart, aspectRatio: aspectRatio ?? undefined }, { signal });
+    }
+};
+
+
+// --- Fidelity Check ---
+// After each generation the hero item is compared against its reference: a model inspection
+// scores it and locates it, then local color and perceptual checks run on that region.
+// The verdict parsing and scoring are in fidelity.ts; this samples the images and runs the checks.
+
+const FIDELITY_SETTINGS_KEY = 'alchemist:fidelitySettings';
+
+const loadFidelitySettings = (): FidelitySettings => {
+    try {
+        return readFidelitySettings(JSON.parse(localStorage.getItem(FIDELITY_SETTINGS_KEY) ?? '{}'));
+    } catch {
+        return DEFAULT_FIDELITY_SETTINGS;
+    }
+};
+
+const buildFidelityPrompt = (itemCategory: string | null, itemAnalysis?: ItemAnalysis | null) => `You are a meticulous quality-control inspector for fashion e-commerce photography.
+Compare the HERO ITEM REFERENCE${itemCategory ? ` (a ${itemCategory})` : ''} with the same item as it appears in the GENERATED IMAGE.${itemAnalysis ? `\nThe reference item's verified attributes are: ${describeItemAnalysis(itemAnalysis).join('; ')}.` : ''}
+Check color and shade, pattern or print, logos and text, shape and silhouette, material and texture, and hardware or small details. Ignore differences caused only by pose, lighting direction, or perspective.
+Respond with ONLY a JSON object:
+{"score": <0-100, where 100 means the item is reproduced exactly>, "box": {"x": <0-1>, "y": <0-1>, "width": <0-1>, "height": <0-1>} or null if the item is not visible, "discrepancies": [<short, specific descriptions of each difference>]}`;
+
+const FULL_FRAME: CropRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+const samplePixels = (image: HTMLImageElement, region: CropRegion, width: number, height: number): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(
+        image,
+        image.naturalWidth * region.x, image.naturalHeight * region.y,
+        image.naturalWidth * region.width, image.naturalHeight * region.height,
+        0, 0, width, height,
+    );
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+const checkHeroFidelity = async (heroItem: File, image: string, itemCategory: string | null, itemAnalysis?: ItemAnalysis | null, signal?: AbortSignal, usage?: UsageScope): Promise<FidelityReport> => {
+    const reference = await fileToGenerativePart(heroItem);
+    let verdict: FidelityVerdict | null = null;
+    try {
+        verdict = parseFidelityVerdict(await getTrackedProvider(usage).checkFidelity({
+            prompt: buildFidelityPrompt(itemCategory, itemAnalysis),
+            reference,
+            image: dataUrlToGenerativePart(image),
+        }, { signal }));
+    } catch (err) {
+        if (isCancelled(err)) throw err;
+        // The local checks still give a useful signal without the model's inspection.
+        console.error("Error inspecting hero item fidelity:", err);
+    }
+
+    const [referenceImage, generatedImage] = await Promise.all([
+        loadImage(`data:${reference.inlineData!.mimeType};base64,${reference.inlineData!.data}`),
+        loadImage(image),
+    ]);
+    const region = verdict?.box ?? FULL_FRAME;
+    const colorSimilarity = histogramIntersection(
+        colorHistogram(samplePixels(referenceImage, FULL_FRAME, 32, 32), 32),
+        colorHistogram(samplePixels(generatedImage, region, 32, 32), 32),
+    );
+    const referenceHash = differenceHash(samplePixels(referenceImage, FULL_FRAME, 9, 8));
+    const generatedHash = differenceHash(samplePixels(generatedImage, region, 9, 8));
+    const perceptualSimilarity = hashSimilarity(referenceHash, generatedHash);
+    return scoreFidelity(verdict, colorSimilarity, perceptualSimilarity);
+};
+
+interface CheckedLookbook {
+    image: string;
+    fidelity: FidelityReport | null;
+    attempts: number;
+}
+
+// Generates, checks, and (when enabled) regenerates failing images, keeping the best-scoring attempt.
+const generateCheckedLookbook = async (request: LookbookRequest, settings: FidelitySettings): Promise<CheckedLookbook> => {
+    const maxAttempts = settings.enabled && settings.autoRetry ? settings.maxRetries + 1 : 1;
+    let best: { image: string; fidelity: FidelityReport | null } | null = null;
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+        attempts++;
+        const image = await generateLookbook(request);
+        let fidelity: FidelityReport | null = null;
+        if (settings.enabled) {
+            try {
+                fidelity = await checkHeroFidelity(request.heroItem, image, request.itemCategory, request.itemAnalysis, request.signal, request.usage);
+            } catch (err) {
+                if (isCancelled(err)) throw err;
+                console.error("Error checking hero item fidelity:", err);
+            }
+        }
+        if (!best || (fidelity && (!best.fidelity || fidelity.score > best.fidelity.score))) best = { image, fidelity };
+        if (!fidelity || fidelity.passed) break;
+    }
+    return { ...best!, attempts };
+};
+
+
+// --- Regional Editing ---
+// Masks are painted at the image's natural resolution: white marks the region to repaint, black is kept.
+// The per-pixel masking and blending are in compositing.ts.
+
+const buildRegionalEditPrompt = (width: number, height: number) => `
+## ROLE & MISSION ##
+You are "The Alchemist," a world-class AI retoucher. You are making a precise, local correction to a finished photograph.
+
+## EDITING MODE: REGIONAL EDIT ##
+1.  **EDIT ONLY THE MASKED REGION:** The 'EDIT MASK' is the same size as the 'IMAGE TO EDIT'. Change ONLY the pixels under its WHITE area, following the 'EDIT INSTRUCTION'. Everything under the BLACK area MUST stay exactly as it is.
+2.  **SEAMLESS BLEND:** The edited region MUST match the surrounding lighting, perspective, grain, and color grade so the edit is invisible.
+3.  **HERO ITEM INTEGRITY:** DO NOT alter the hero item unless it lies inside the masked region. If it does, it MUST still match the 'HERO ITEM REFERENCE' exactly in color, pattern, logos, and shape.
+4.  **PRESERVATION OF IDENTITY:** Outside the masked region, ${identityPreservationRule('IMAGE TO EDIT')}
+5.  **NO RECOMPOSITION:** Do not reframe, restyle, or relight the image as a whole. The output MUST be the full image at exactly ${width}x${height}px.
+`;
+
+// Converts the painted overlay into the black-and-white mask the model reads.
+const exportMask = (overlay: HTMLCanvasElement): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    const pixels = overlay.getContext('2d')!.getImageData(0, 0, overlay.width, overlay.height);
+    paintedToMask(pixels.data);
+    canvas.getContext('2d')!.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const readPixels = (image: CanvasImageSource, width: number, height: number, filter = 'none'): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.filter = filter;
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// The model may drift outside the mask or change the resolution, so only masked pixels of its
+// output are kept on top of the original, at the original's size.
+const compositeRegionalEdit = async (baseImage: string, editedImage: string, mask: string): Promise<string> => {
+    const [base, edited, maskImage] = await Promise.all([loadImage(baseImage), loadImage(editedImage), loadImage(mask)]);
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+    const weights = featherMask(
+        readPixels(maskImage, width, height),
+        readPixels(maskImage, width, height, `blur(${Math.max(2, Math.round(width / 300))}px)`),
+    );
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const result = new ImageData(blendMasked(readPixels(base, width, height), readPixels(edited, width, height), weights), width, height);
+    canvas.getContext('2d')!.putImageData(result, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+interface RegionalEditRequest {
+    heroItem: File;
+    baseImage: string;
+    mask: string;
+    instruction: string;
+    talent?: TalentProfile | null;
+    itemAnalysis?: ItemAnalysis | null;
+    brandKits?: BrandKit[];
+    usage?: UsageScope;
+    signal?: AbortSignal;
+}
+
+const generateRegionalEdit = async ({ heroItem, baseImage, mask, instruction, talent, itemAnalysis, brandKits = [], usage, signal }: RegionalEditRequest): Promise<string> => {
+    const { naturalWidth, naturalHeight } = await loadImage(baseImage);
+    const heroItemPart = await fileToGenerativePart(heroItem);
+    const baseImagePart = dataUrlToGenerativePart(baseImage);
+    const maskPart = dataUrlToGenerativePart(mask);
+
+    const parts: Part[] = [{ text: buildRegionalEditPrompt(naturalWidth, naturalHeight) }];
+    if (talent) parts.push({ text: buildTalentPrompt(talent) });
+    if (itemAnalysis) parts.push({ text: buildItemSpecPrompt(itemAnalysis) });
+    if (brandKits.length > 0) parts.push({ text: buildBrandKitPrompt(brandKits, false) });
+    parts.push({ text: '\n\n---\n\n**INPUT: HERO ITEM REFERENCE**' });
+    parts.push(heroItemPart);
+    if (talent) {
+        parts.push({ text: `\n\n**INPUT: CAST TALENT REFERENCE** (${talent.name})` });
+        talent.references.forEach(reference => parts.push(dataUrlToGenerativePart(reference)));
+    }
+    parts.push({ text: '\n\n**INPUT: IMAGE TO EDIT**' });
+    parts.push(baseImagePart);
+    parts.push({ text: '\n\n**INPUT: EDIT MASK**' });
+    parts.push(maskPart);
+    parts.push({ text: `\n\n**INPUT: EDIT INSTRUCTION**\n"${instruction}"` });
+    parts.push({ text: '\n\n---\n\n**ACTION: Generate the edited image now, changing only the masked region.**' });
+
+    const editedImage = await getTrackedProvider(usage).editImage({ parts, heroItem: heroItemPart, baseImage: baseImagePart, mask: maskPart }, { signal });
+    return compositeRegionalEdit(baseImage, editedImage, mask);
+};
+
+// Extending the canvas is a regional edit of a larger, padded image: the mask covers only the new
+// area, so the original pixels come back untouched from the composite.
+const buildExtendCanvasPrompt = (width: number, height: number) => `
+## ROLE & MISSION ##
+You are "The Alchemist," a world-class AI retoucher. You are extending a finished photograph to a wider or taller frame.
+
+## EDITING MODE: EXTEND CANVAS ##
+1.  **FILL ONLY THE NEW CANVAS:** The 'IMAGE TO EDIT' has been placed on a larger canvas. The WHITE area of the 'EDIT MASK' is new, empty canvas with only a blurred placeholder. Replace it by continuing the existing scene naturally: the same setting, surfaces, props, lighting, perspective, and depth of field.
+2.  **KEEP THE ORIGINAL:** Everything under the BLACK area of the mask MUST stay exactly as it is. Do not move, rescale, or restyle the model, the hero item, or anything else already in the photograph.
+3.  **HERO ITEM INTEGRITY:** Do not add a second copy of the hero item or any other product to the new area.
+4.  **NO VISIBLE SEAMS:** The transition between the original photograph and the new canvas MUST be invisible.
+5.  **OUTPUT SIZE:** The output MUST be the full extended image at exactly ${width}x${height}px.
+`;
+
+// Places the original centered on a canvas of the target ratio, over a blurred stretch of itself
+// so the model sees plausible colors in the new area.
+const padToAspectRatio = async (image: string, ratio: AspectRatio): Promise<{ padded: string; mask: string }> => {
+    const source = await loadImage(image);
+    const target = getAspectValue(ratio);
+    const width = Math.max(source.naturalWidth, Math.round(source.naturalHeight * target));
+    const height = Math.max(source.naturalHeight, Math.round(source.naturalWidth / target));
+    const x = Math.round((width - source.naturalWidth) / 2);
+    const y = Math.round((height - source.naturalHeight) / 2);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px)`;
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.drawImage(source, x, y);
+
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = width;
+    maskCanvas.height = height;
+    const maskCtx = maskCanvas.getContext('2d')!;
+    maskCtx.fillStyle = '#ffffff';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(x, y, source.naturalWidth, source.naturalHeight);
+
+    return { padded: canvas.toDataURL('image/png'), mask: maskCanvas.toDataURL('image/png') };
+};
+
+interface CanvasExtensionRequest {
+    heroItem: File;
+    baseImage: string;
+    aspectRatio: AspectRatio;
+    brandKits?: BrandKit[];
+    usage?: UsageScope;
+    signal?: AbortSignal;
+}
+
+const generateCanvasExtension = async ({ heroItem, baseImage, aspectRatio, brandKits = [], usage, signal }: CanvasExtensionRequest): Promise<string> => {
+    const { padded, mask } = await padToAspectRatio(baseImage, aspectRatio);
+    const { naturalWidth, naturalHeight } = await loadImage(padded);
+    const heroItemPart = await fileToGenerativePart(heroItem);
+    const paddedPart = dataUrlToGenerativePart(padded);
+    const maskPart = dataUrlToGenerativePart(mask);
+
+    const parts: Part[] = [
+        { text: buildExtendCanvasPrompt(naturalWidth, naturalHeight) + buildBrandKitPrompt(brandKits, false) },
+        { text: '\n\n---\n\n**INPUT: HERO ITEM REFERENCE**' },
+        heroItemPart,
+        { text: '\n\n**INPUT: IMAGE TO EDIT**' },
+        paddedPart,
+        { text: '\n\n**INPUT: EDIT MASK**' },
+        maskPart,
+        { text: '\n\n---\n\n**ACTION: Generate the extended image now, filling only the new canvas.**' },
+    ];
+
+    const editedImage = await getTrackedProvider(usage).editImage({ parts, heroItem: heroItemPart, baseImage: paddedPart, mask: maskPart, aspectRatio }, { signal });
+    return compositeRegionalEdit(padded, editedImage, mask);
+};
+
+
+// --- Input Preprocessing ---
+// Every upload is decoded upright (EXIF orientation applied), downscaled and re-encoded before it
+// reaches the model, which also strips camera metadata. Item photos can additionally be cropped
+// to the item and cut out from a plain backdrop, entirely on-device; the backdrop detection is in
+// preprocess.ts.
+
+interface PreparedImage {
+    file: File;
+    // What was done, for the before/after preview.
+    steps: string[];
+}
+
+const PREPROCESS_SETTINGS_KEY = 'alchemist:preprocessSettings';
+// Backdrop detection runs on a small copy; the result is scaled back up to the full image.
+const BACKDROP_ANALYSIS_SIZE = 512;
+
+const loadPreprocessSettings = (): PreprocessSettings => {
+    try {
+        return readPreprocessSettings(JSON.parse(localStorage.getItem(PREPROCESS_SETTINGS_KEY) ?? '{}'));
+    } catch {
+        return DEFAULT_PREPROCESS_SETTINGS;
+    }
+};
+
+// Safari can open HEIC, so decoding is always attempted; these only name the format in the error.
+const UNSUPPORTED_FORMATS = [
+    { pattern: /image\/hei[cf]|\.hei[cf]$/i, name: 'HEIC' },
+    { pattern: /image\/tiff|\.tiff?$/i, name: 'TIFF' },
+];
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        const format = UNSUPPORTED_FORMATS.find(({ pattern }) => pattern.test(file.type) || pattern.test(file.name));
+        throw new Error(format
+            ? `"${file.name}" is a ${format.name} image, which this browser can't open. Please export it as JPEG or PNG and upload it again.`
+            : `"${file.name}" couldn't be opened as an image. Please use a JPEG, PNG, or WebP file.`);
+    }
+};
+
+const maskToCanvas = (mask: Uint8Array, width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const pixels = ctx.createImageData(width, height);
+    mask.forEach((value, index) => { pixels.data[index * 4 + 3] = value ? 255 : 0; });
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+const preprocessImage = async (file: File, settings: PreprocessSettings, isItem: boolean): Promise<PreparedImage> => {
+    const bitmap = await decodeImage(file);
+    const steps: string[] = [];
+    // Region of the upright image to keep, in its pixels.
+    let region: CropRegion = { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    let cutout: { mask: HTMLCanvasElement; scale: number } | null = null;
+
+    if (isItem && (settings.autoCrop || settings.removeBackground)) {
+        const scale = Math.min(1, BACKDROP_ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const analysis = document.createElement('canvas');
+        analysis.width = width;
+        analysis.height = height;
+        const ctx = analysis.getContext('2d', { willReadFrequently: true })!;
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const { data } = ctx.getImageData(0, 0, width, height);
+        const backdrop = estimateBackdrop(data, width, height);
+
+        if (!backdrop) {
+            steps.push('Background too busy to clean up automatically');
+        } else {
+            const mask = findItemMask(data, width, height, backdrop);
+            const bounds = settings.autoCrop ? getMaskBounds(mask, width, height) : null;
+            if (bounds && bounds.width * bounds.height < 0.9 * width * height) {
+                region = { x: bounds.x / scale, y: bounds.y / scale, width: bounds.width / scale, height: bounds.height / scale };
+                steps.push('Cropped to the item');
+            }
+            if (settings.removeBackground) {
+                cutout = { mask: maskToCanvas(mask, width, height), scale };
+                steps.push('Background replaced with white');
+            }
+        }
+    }
+
+    const scale = Math.min(1, settings.maxDimension / Math.max(region.width, region.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.width * scale));
+    canvas.height = Math.max(1, Math.round(region.height * scale));
+    if (scale < 1) steps.push(`Downscaled to ${canvas.width}x${canvas.height}px`);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    if (cutout) {
+        // The mask is upscaled with smoothing, which softens its edges into a short feather.
+        const { mask, scale: maskScale } = cutout;
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(mask, region.x * maskScale, region.y * maskScale, region.width * maskScale, region.height * maskScale, 0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Photos stay JPEG for size; graphics and cutouts stay lossless.
+    const isLossless = !!cutout || file.type === 'image/png' || file.type === 'image/gif';
+    const mimeType = isLossless ? 'image/png' : 'image/jpeg';
+    let blob = await canvasToBlob(canvas, mimeType, isLossless ? undefined : 0.92);
+    // Re-encoding drops metadata; keep the studio's own provenance so re-uploads still show it.
+    const provenance = await readProvenance(file).catch(() => null);
+    if (provenance) blob = await embedProvenance(blob, provenance);
+
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${isLossless ? 'png' : 'jpg'}`;
+    return { file: new File([blob], name, { type: mimeType, lastModified: file.lastModified }), steps };
+};
+
+// One at a time to keep memory in check; files that can't be opened are reported, not fatal.
+const preprocessImages = async (files: File[], settings: PreprocessSettings, isItem: boolean): Promise<{ files: File[]; errors: string[] }> => {
+    const prepared: File[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+        try {
+            prepared.push((await preprocessImage(file, settings, isItem)).file);
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            errors.push(err instanceof Error ? err.message : `"${file.name}" couldn't be prepared.`);
+        }
+    }
+    return { files: prepared, errors };
+};
+
+// --- Batch Queue ---
+type StudioMode = 'single' | 'batch' | 'shotlist';
+type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface BatchItem {
+    id: string;
+    file: File;
+    category: string | null;
+    analysis: ItemAnalysis | null;
+    isIdentifying: boolean;
+}
+
+interface BatchBrief {
+    name: string;
+    fields: CreativeBrief;
+    // A preset's bundled photo; replaces the batch inspiration for this brief.
+    inspirationPhoto?: File | null;
+}
+
+interface BatchJob {
+    id: string;
+    heroItem: File;
+    itemCategory: string | null;
+    itemAnalysis: ItemAnalysis | null;
+    inspirationPhoto: File | null;
+    brief: BatchBrief;
+    stylePrompt: string;
+    shotType: ShotType;
+    talent: TalentProfile | null;
+    variation: number;
+    status: BatchJobStatus;
+    attempts: number;
+    image: string | null;
+    fidelity: FidelityReport | null;
+    error: string | null;
+    // Provenance of the finished image.
+    model: string | null;
+    completedAt: number | null;
+}
+
+interface BatchOptions {
+    // Selected style presets; each runs only for the items it applies to.
+    presets: StylePreset[];
+    customBriefs: BatchBrief[];
+    // The whole preset library, searched for per-item suggestions.
+    library: StylePreset[];
+    includeSuggested: boolean;
+    inspirationPhoto: File | null;
+    shotType: ShotType;
+    talent: TalentProfile | null;
+    variations: number;
+}
+
+// Expands items x briefs x variations into jobs. Items must already be identified so each
+// job gets the right shot type and the suggested presets for its own category.
+const buildBatchJobs = (items: BatchItem[], { presets, customBriefs, library, includeSuggested, inspirationPhoto, shotType, talent, variations }: BatchOptions): BatchJob[] => {
+    const jobs: BatchJob[] = [];
+    const presetBriefs = new Map<string, BatchBrief>();
+    const toBrief = (preset: StylePreset): BatchBrief => {
+        let brief = presetBriefs.get(preset.id);
+        if (!brief) {
+            const photo = preset.inspiration ? dataUrlToFile(preset.inspiration, `${toFileSlug(preset.name)}-inspiration`) : null;
+            brief = { name: preset.name, fields: preset.fields, inspirationPhoto: photo };
+            presetBriefs.set(preset.id, brief);
+        }
+        return brief;
+    };
+
+    for (const item of items) {
+        const itemShotType = resolveShotType(shotType, item.category);
+        const itemBriefs = [
+            ...getStylePresets(presets, [item.analysis], itemShotType).map(toBrief),
+            ...customBriefs,
+            ...(includeSuggested ? getSuggestedPresets(library, [item.analysis], itemShotType).map(toBrief) : []),
+        ];
+        if (itemBriefs.length === 0) itemBriefs.push({ name: 'Default', fields: {} });
+
+        for (const brief of itemBriefs) {
+            for (let variation = 1; variation <= variations; variation++) {
+                jobs.push({
+                    id: createId(),
+                    heroItem: item.file,
+                    itemCategory: item.category,
+                    itemAnalysis: item.analysis,
+                    inspirationPhoto: brief.inspirationPhoto ?? inspirationPhoto,
+                    brief,
+                    stylePrompt: composeBrief(brief.fields, itemShotType),
+                    shotType: itemShotType,
+                    // The same cast talent wears every model-shot piece in the collection.
+                    talent: itemShotType === 'model' ? talent : null,
+                    variation,
+                    status: 'queued',
+                    attempts: 0,
+                    image: null,
+                    fidelity: null,
+                    error: null,
+                    model: null,
+                    completedAt: null,
+                });
+            }
+        }
+    }
+    return jobs;
+};
+
+const toFileSlug = (text: string) => text.toLowerCase().replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+
+// --- Project Library ---
+// Projects live in IndexedDB, which stores File objects and data URLs as-is.
+
+interface ProjectSummary {
+    id: string;
+    name: string;
+    updatedAt: number;
+    versionCount: number;
+    thumbnail: string | null;
+}
+
+const PROJECT_DB_NAME = 'alchemist-studio';
+const PROJECT_STORE = 'projects';
+// The preset and brand kit libraries share the studio database (see below).
+const PRESET_STORE = 'presets';
+const BRAND_KIT_STORE = 'brandKits';
+const USAGE_STORE = 'usage';
+const LAST_PROJECT_KEY = 'alchemist:lastProjectId';
+const PROJECT_ARCHIVE_FORMAT = 'alchemist-project';
+const PROJECT_ARCHIVE_VERSION = 1;
+const PROJECT_AUTOSAVE_DELAY_MS = 800;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+let studioDb: Promise<IDBDatabase> | null = null;
+
+const openStudioDb = (): Promise<IDBDatabase> => {
+    studioDb ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(PROJECT_DB_NAME, 4);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (event.oldVersion < 1) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+            // Version 2 adds the preset library, seeded once with the built-in presets.
+            if (event.oldVersion < 2) {
+                const presets = db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+                DEFAULT_PRESETS.forEach(preset => presets.put(preset));
+            }
+            // Version 3 adds brand kits.
+            if (event.oldVersion < 3) db.createObjectStore(BRAND_KIT_STORE, { keyPath: 'id' });
+            // Version 4 adds the usage log.
+            if (event.oldVersion < 4) db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return studioDb;
+};
+
+const getProjectStore = async (mode: IDBTransactionMode) =>
+    (await openStudioDb()).transaction(PROJECT_STORE, mode).objectStore(PROJECT_STORE);
+
+const listProjects = async (): Promise<ProjectSummary[]> => {
+    const projects = await requestToPromise<Project[]>((await getProjectStore('readonly')).getAll());
+    return projects
+        .map(project => ({
+            id: project.id,
+            name: project.name,
+            updatedAt: project.updatedAt,
+            versionCount: project.history.length,
+            thumbnail: project.history[project.history.length - 1]?.image ?? null,
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const loadProject = async (id: string): Promise<Project | undefined> =>
+    requestToPromise<Project | undefined>((await getProjectStore('readonly')).get(id));
+
+const saveProject = async (project: Project): Promise<void> => {
+    await requestToPromise((await getProjectStore('readwrite')).put(project));
+};
+
+const deleteProject = async (id: string): Promise<void> => {
+    await requestToPromise((await getProjectStore('readwrite')).delete(id));
+};
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+    const { inlineData } = dataUrlToGenerativePart(dataUrl);
+    const binary = atob(inlineData!.data!);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mimeType: inlineData!.mimeType! };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    // Chunked so large images don't overflow the argument limit of String.fromCharCode.
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const EXTENSIONS: { [mimeType: string]: string } = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+// The manifest mirrors the project state, with every File and image data URL replaced by a
+// reference to an entry in the archive.
+const exportProjectArchive = async (project: Project): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    const pendingFiles: Array<{ path: string; file: File }> = [];
+    const filePaths = new Map<File, string>();
+
+    const pack = (value: unknown): unknown => {
+        if (value instanceof File) {
+            let path = filePaths.get(value);
+            if (!path) {
+                path = `inputs/${filePaths.size + 1}-${value.name.replace(/[^\w.-]+/g, '_')}`;
+                filePaths.set(value, path);
+                pendingFiles.push({ path, file: value });
+            }
+            return { $file: path, name: value.name, type: value.type, lastModified: value.lastModified };
+        }
+        if (typeof value === 'string' && value.startsWith('data:image/')) {
+            const { bytes, mimeType } = dataUrlToBytes(value);
+            const path = `images/${entries.length + 1}.${EXTENSIONS[mimeType] ?? 'img'}`;
+            entries.push({ path, data: bytes });
+            return { $image: path, type: mimeType };
+        }
+        if (Array.isArray(value)) return value.map(pack);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, pack(v)]));
+        }
+        return value;
+    };
+
+    const { id, ...rest } = project;
+    const manifest = { format: PROJECT_ARCHIVE_FORMAT, version: PROJECT_ARCHIVE_VERSION, project: pack(rest) };
+    for (const { path, file } of pendingFiles) {
+        entries.push({ path, data: new Uint8Array(await file.arrayBuffer()) });
+    }
+    entries.unshift({ path: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    return createZip(entries);
+};
+
+// Imports always create a new project, so a teammate's archive never overwrites local work.
+const importProjectArchive = async (archive: File): Promise<Project> => {
+    const files = await readZip(archive);
+    const manifestBytes = files.get('manifest.json');
+    let manifest: unknown = null;
+    try {
+        if (manifestBytes) manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+    } catch {
+        // Reported below, like a missing manifest.
+    }
+    if (!isRecord(manifest) || manifest.format !== PROJECT_ARCHIVE_FORMAT) throw new Error("This archive is not an Alchemist's Studio project.");
+    if (typeof manifest.version !== 'number' || manifest.version > PROJECT_ARCHIVE_VERSION) throw new Error("This project was exported by a newer version of the studio.");
+
+    const readEntry = (path: string) => {
+        const bytes = files.get(path);
+        if (!bytes) throw new Error(`The project archive is missing "${path}".`);
+        return bytes;
+    };
+    const unpack = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(unpack);
+        if (isRecord(value)) {
+            const type = typeof value.type === 'string' ? value.type : '';
+            if (typeof value.$file === 'string') {
+                const name = typeof value.name === 'string' ? value.name : value.$file;
+                return new File([readEntry(value.$file)], name, { type, lastModified: typeof value.lastModified === 'number' ? value.lastModified : undefined });
+            }
+            if (typeof value.$image === 'string') {
+                if (!type.startsWith('image/')) throw new Error(`The project archive has an unreadable image "${value.$image}".`);
+                return bytesToDataUrl(readEntry(value.$image), type);
+            }
+            return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, unpack(v)]));
+        }
+        return value;
+    };
+
+    return readArchivedProject(unpack(manifest.project));
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadDataUrl(url, filename);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+
+// --- Preset Library ---
+const getPresetStore = async (mode: IDBTransactionMode) =>
+    (await openStudioDb()).transaction(PRESET_STORE, mode).objectStore(PRESET_STORE);
+
+// Built-ins first, in their original order, then the team's own presets alphabetically.
+const sortPresets = (presets: StylePreset[]): StylePreset[] => {
+    const builtInOrder = new Map(DEFAULT_PRESETS.map((preset, index) => [preset.id, index]));
+    return [...presets].sort((a, b) =>
+        (builtInOrder.get(a.id) ?? Infinity) - (builtInOrder.get(b.id) ?? Infinity) || a.name.localeCompare(b.name));
+};
+
+const listPresets = async (): Promise<StylePreset[]> =>
+    sortPresets(await requestToPromise<StylePreset[]>((await getPresetStore('readonly')).getAll()));
+
+const savePresets = async (presets: StylePreset[]): Promise<void> => {
+    const store = await getPresetStore('readwrite');
+    await Promise.all(presets.map(preset => requestToPromise(store.put(preset))));
+};
+
+const deletePreset = async (id: string): Promise<void> => {
+    await requestToPromise((await getPresetStore('readwrite')).delete(id));
+};
+
+const createPreset = (): StylePreset => ({
+    id: createId(),
+    name: '',
+    kind: 'style',
+    fields: {},
+    tags: [],
+    categories: [],
+    shotTypes: [],
+    scope: 'any',
+    inspiration: null,
+    updatedAt: Date.now(),
+});
+
+const dataUrlToFile = (dataUrl: string, name: string): File => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    return new File([bytes], `${name}.${EXTENSIONS[mimeType] ?? 'img'}`, { type: mimeType });
+};
+
+
+// --- Brand Kit Library ---
+const getBrandKitStore = async (mode: IDBTransactionMode) =>
+    (await openStudioDb()).transaction(BRAND_KIT_STORE, mode).objectStore(BRAND_KIT_STORE);
+
+const listBrandKits = async (): Promise<BrandKit[]> =>
+    (await requestToPromise<BrandKit[]>((await getBrandKitStore('readonly')).getAll())).sort((a, b) => a.name.localeCompare(b.name));
+
+const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+    await requestToPromise((await getBrandKitStore('readwrite')).put(kit));
+};
+
+const deleteBrandKit = async (id: string): Promise<void> => {
+    await requestToPromise((await getBrandKitStore('readwrite')).delete(id));
+};
+
+
+// --- Usage Log ---
+const getUsageStore = async (mode: IDBTransactionMode) =>
+    (await openStudioDb()).transaction(USAGE_STORE, mode).objectStore(USAGE_STORE);
+
+const listUsageRecords = async (): Promise<UsageRecord[]> =>
+    (await requestToPromise<UsageRecord[]>((await getUsageStore('readonly')).getAll())).sort((a, b) => a.timestamp - b.timestamp);
+
+const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+    await requestToPromise((await getUsageStore('readwrite')).put(record));
+};
+
+const clearUsageRecords = async (): Promise<void> => {
+    await requestToPromise((await getUsageStore('readwrite')).clear());
+    setUsageRecords([]);
+};
+
+
+// --- Failures ---
+type RecoveryAction = 'retry' | 'edit-brief' | 'replace-item' | 'open-usage';
+
+// How each kind of model failure is titled, and the one action most likely to fix it.
+const FAILURE_GUIDES: Record<ModelErrorKind, { title: string; action?: { label: string; kind: RecoveryAction } }> = {
+    quota: { title: 'Usage Limit Reached', action: { label: 'Try Again', kind: 'retry' } },
+    safety: { title: 'Request Declined', action: { label: 'Edit Brief', kind: 'edit-brief' } },
+    'no-image': { title: 'No Image Returned', action: { label: 'Try Again', kind: 'retry' } },
+    'invalid-input': { title: 'Image Not Accepted', action: { label: 'Replace Hero Item', kind: 'replace-item' } },
+    network: { title: 'Connection Lost', action: { label: 'Try Again', kind: 'retry' } },
+    timeout: { title: 'Timed Out', action: { label: 'Try Again', kind: 'retry' } },
+    server: { title: 'Alchemy Failed', action: { label: 'Try Again', kind: 'retry' } },
+    cancelled: { title: 'Cancelled' },
+    budget: { title: 'Budget Reached', action: { label: 'Open Usage', kind: 'open-usage' } },
+};
+
+// One line, for places without room for a FailureNotice such as batch job cards.
+const getFailureSummary = (err: unknown): string => {
+    if (!(err instanceof Error)) return "An unknown error occurred.";
+    const modelText = err instanceof ModelError ? err.details.modelText : undefined;
+    return modelText ? `${err.message} The model replied: "${modelText}"` : err.message;
+};
+
+
+// --- Components ---
+
+interface ImageUploaderProps {
+    onFileSelect?: (file: File) => void;
+    selectedFile?: File | null;
+    onFileRemove?: () => void;
+    // Multi-file mode: accepts several files or whole folders and always shows the drop zone.
+    onFilesSelect?: (files: File[]) => void;
+    title: string;
+    description: string;
+    // Offered when the selected image carries the studio's provenance metadata.
+    onReuseBrief?: (brief: string) => void;
+}
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onFileSelect, selectedFile = null, onFileRemove, onFilesSelect, title, description, onReuseBrief }) => {
+    const [preview, setPreview] = useState<string | null>(null);
+    const [provenance, setProvenance] = useState<ProvenanceRecord | null>(null);
+
+    useEffect(() => {
+        setProvenance(null);
+        if (!selectedFile) return;
+        let isCurrent = true;
+        readProvenance(selectedFile)
+            .then(record => isCurrent && setProvenance(record))
+            .catch(err => console.error("Could not read image metadata:", err));
+        return () => { isCurrent = false; };
+    }, [selectedFile]);
+
+    useEffect(() => {
+        if (!selectedFile) {
+            setPreview(null);
+            return;
+        }
+        const objectUrl = URL.createObjectURL(selectedFile);
+        setPreview(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [selectedFile]);
+
+    const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (onFilesSelect) {
+            getDroppedImageFiles(e.dataTransfer).then(files => files.length > 0 && onFilesSelect(files));
+        } else if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+            onFileSelect?.(e.dataTransfer.files[0]);
+        }
+    }, [onFileSelect, onFilesSelect]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (onFilesSelect) {
+            const files = filterImageFiles(Array.from(e.target.files ?? []));
+            if (files.length > 0) onFilesSelect(files);
+            e.target.value = ''; // Allow re-selecting the same files later
+        } else if (e.target.files && e.target.files[0]) {
+            onFileSelect?.(e.target.files[0]);
+        }
+    };
+
+    return (
+        <div className="input-group">
+            <label>{title}</label>
+            <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>{description}</span></p>
+            {!preview ? (
+                 <div
+                    className="drop-zone"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={handleDrop}
+                    onClick={() => document.getElementById(title)?.click()}
+                >
+                    <input type="file" id={title} accept="image/*" onChange={handleChange} multiple={!!onFilesSelect} hidden/>
+                    <p>{onFilesSelect ? 'Drag & drop images or a folder here, or click to select' : 'Drag & drop image here, or click to select'}</p>
+                </div>
+            ) : (
+                <div className="image-preview">
+                    <img src={preview} alt="Preview" />
+                    <button className="remove-btn" onClick={onFileRemove} aria-label="Remove image">
+                        &times;
+                    </button>
+                </div>
+            )}
+            {provenance && (
+                <div className="provenance-note">
+                    <p><strong>AI-generated</strong> with {provenance.generator}</p>
+                    <p>
+                        {[provenance.model, new Date(provenance.createdAt).toLocaleDateString(), provenance.shotType, provenance.itemCategory]
+                            .filter(Boolean).join(' · ')}
+                    </p>
+                    {provenance.brief && (
+                        <>
+                            <p className="provenance-brief">{provenance.brief}</p>
+                            {onReuseBrief && (
+                                <button className="link-btn" onClick={() => onReuseBrief(provenance.brief)}>Reuse this brief</button>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+interface BriefBuilderProps {
+    brief: CreativeBrief;
+    shotType: ShotType;
+    onFieldChange: (field: BriefField, value: string) => void;
+    onClear: () => void;
+    // The text actually sent: the composed brief unless the user has edited it by hand.
+    prompt: string;
+    isPromptEdited: boolean;
+    onPromptEdit: (prompt: string) => void;
+    onPromptReset: () => void;
+}
+
+const BriefBuilder: React.FC<BriefBuilderProps> = ({ brief, shotType, onFieldChange, onClear, prompt, isPromptEdited, onPromptEdit, onPromptReset }) => (
+    <div className="brief-builder">
+        <div className="brief-fields">
+            {getBriefFields(shotType).map(field => (
+                <div key={field.key} className={`brief-field ${field.key === 'notes' ? 'wide' : ''}`}>
+                    <label htmlFor={`brief-${field.key}`}>{field.label}</label>
+                    <input
+                        id={`brief-${field.key}`}
+                        type="text"
+                        list={field.suggestions ? `brief-${field.key}-suggestions` : undefined}
+                        value={brief[field.key] ?? ''}
+                        onChange={(e) => onFieldChange(field.key, e.target.value)}
+                        placeholder={field.placeholder}
+                    />
+                    {field.suggestions && (
+                        <datalist id={`brief-${field.key}-suggestions`}>
+                            {field.suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+                        </datalist>
+                    )}
+                </div>
+            ))}
+        </div>
+
+        <div className="brief-preview-header">
+            <p className="presets-title">Prompt Preview{isPromptEdited && ' (edited)'}</p>
+            <div>
+                {isPromptEdited && <button className="link-btn" onClick={onPromptReset}>Reset to fields</button>}
+                <button className="link-btn" onClick={onClear}>Clear brief</button>
+            </div>
+        </div>
+        <textarea
+            id="style-prompt"
+            value={prompt}
+            onChange={(e) => onPromptEdit(e.target.value)}
+            placeholder="Fill in the fields above or type your own brief, e.g. 'A model on a neon-lit Tokyo street at night'"
+        />
+    </div>
+);
+
+
+interface TalentPickerProps {
+    talents: TalentProfile[];
+    selectedTalentId: string | null;
+    onSelect: (id: string | null) => void;
+    onRemove?: (id: string) => void;
+}
+
+const TalentPicker: React.FC<TalentPickerProps> = ({ talents, selectedTalentId, onSelect, onRemove }) => (
+    <div className="presets-container">
+        <p className="presets-title">Cast Talent</p>
+        <div>
+            <button className={`preset-btn ${selectedTalentId === null ? 'active' : ''}`} onClick={() => onSelect(null)}>New Model</button>
+            {talents.map(talent => (
+                <span key={talent.id} className="talent-chip">
+                    <button
+                        className={`preset-btn ${selectedTalentId === talent.id ? 'active' : ''}`}
+                        onClick={() => onSelect(talent.id)}
+                        title={talent.attributes || talent.name}
+                    >
+                        <img src={talent.references[0]} alt="" />
+                        {talent.name}
+                    </button>
+                    {onRemove && (
+                        <button className="talent-remove-btn" onClick={() => onRemove(talent.id)} aria-label={`Remove ${talent.name}`}>&times;</button>
+                    )}
+                </span>
+            ))}
+        </div>
+    </div>
+);
+
+
+interface CastingPanelProps {
+    image: string;
+    talents: TalentProfile[];
+    onSave: (talentId: string | null, details: { name: string; attributes: string }, reference: string) => void;
+    onClose: () => void;
+}
+
+// Saves a crop of the current version as a new talent, or as another reference for an existing one.
+const CastingPanel: React.FC<CastingPanelProps> = ({ image, talents, onSave, onClose }) => {
+    const [targetId, setTargetId] = useState<string>('new');
+    const [name, setName] = useState<string>('');
+    const [attributes, setAttributes] = useState<string>('');
+    const [cropName, setCropName] = useState<string>(Object.keys(TALENT_CROPS)[0]);
+    const [reference, setReference] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        cropDataUrl(image, TALENT_CROPS[cropName]).then(cropped => !cancelled && setReference(cropped));
+        return () => { cancelled = true; };
+    }, [image, cropName]);
+
+    const isNew = targetId === 'new';
+    const canSave = !!reference && (!isNew || name.trim().length > 0);
+
+    return (
+        <div className="casting-panel">
+            <div className="casting-panel-header">
+                <p className="presets-title">Cast This Model</p>
+                <button className="link-btn" onClick={onClose}>Cancel</button>
+            </div>
+            <div className="casting-panel-body">
+                {reference && <img src={reference} alt="Talent reference crop" className="casting-preview" />}
+                <div className="casting-form">
+                    <div className="presets-container">
+                        <p className="presets-title">Reference Crop</p>
+                        <div>
+                            {Object.keys(TALENT_CROPS).map(crop => (
+                                <button key={crop} className={`preset-btn ${cropName === crop ? 'active' : ''}`} onClick={() => setCropName(crop)}>{crop}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <select value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+                        <option value="new">Save as new talent</option>
+                        {talents.map(talent => (
+                            <option key={talent.id} value={talent.id}>Add reference to {talent.name}</option>
+                        ))}
+                    </select>
+                    {isNew && (
+                        <>
+                            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Talent name, e.g. 'Ava'" />
+                            <textarea
+                                value={attributes}
+                                onChange={(e) => setAttributes(e.target.value)}
+                                placeholder="Describe them, e.g. 'Late 20s, shoulder-length auburn hair, freckles, athletic build'"
+                            />
+                        </>
+                    )}
+                    <button className="download-btn" disabled={!canSave} onClick={() => reference && onSave(isNew ? null : targetId, { name: name.trim(), attributes }, reference)}>
+                        {isNew ? 'Save Talent' : 'Add Reference'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface RegionalEditorProps {
+    image: string;
+    disabled: boolean;
+    error: string | null;
+    onApply: (mask: string, instruction: string) => void;
+    onClose: () => void;
+}
+
+const RegionalEditor: React.FC<RegionalEditorProps> = ({ image, disabled, error, onApply, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+    const strokeRef = useRef<Array<{ x: number; y: number }> | null>(null);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState<number>(40);
+    const [instruction, setInstruction] = useState<string>('');
+    const [hasMask, setHasMask] = useState(false);
+    const [overlayBox, setOverlayBox] = useState<React.CSSProperties>({});
+
+    // Keep the overlay exactly over the image as the panel resizes.
+    useEffect(() => {
+        const img = imageRef.current!;
+        const observer = new ResizeObserver(() => setOverlayBox({
+            left: img.offsetLeft,
+            top: img.offsetTop,
+            width: img.offsetWidth,
+            height: img.offsetHeight,
+        }));
+        observer.observe(img);
+        return () => observer.disconnect();
+    }, []);
+
+    // The overlay canvas works in image pixels; pointer positions are scaled from its on-screen size.
+    const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+            scale: canvas.width / rect.width,
+        };
+    };
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current!;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (disabled) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y } = getPoint(e);
+        strokeRef.current = [{ x, y }];
+        handlePointerMove(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        const { x, y, scale } = getPoint(e);
+        const ctx = e.currentTarget.getContext('2d')!;
+        const previous = stroke[stroke.length - 1];
+        stroke.push({ x, y });
+
+        ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = '#ff4081';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = tool === 'lasso' ? 2 * scale : brushSize * scale;
+        ctx.beginPath();
+        ctx.moveTo(previous.x, previous.y);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        strokeRef.current = null;
+        if (!stroke) return;
+        const ctx = e.currentTarget.getContext('2d')!;
+        if (tool === 'lasso' && stroke.length > 2) {
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.fillStyle = '#ff4081';
+            ctx.beginPath();
+            stroke.forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+            ctx.closePath();
+            ctx.fill();
+        }
+        const { width, height } = e.currentTarget;
+        setHasMask(ctx.getImageData(0, 0, width, height).data.some((value, index) => index % 4 === 3 && value > 0));
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current!;
+        canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const canApply = hasMask && instruction.trim().length > 0 && !disabled;
+
+    return (
+        <div className="region-editor">
+            <div className="region-stage">
+                <img ref={imageRef} src={image} alt="Image being edited" className="output-image" onLoad={handleImageLoad} />
+                <canvas
+                    ref={canvasRef}
+                    className="region-mask"
+                    style={overlayBox}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+            </div>
+            <div className="region-controls">
+                <div className="casting-panel-header">
+                    <p className="presets-title">Regional Edit</p>
+                    <button className="link-btn" onClick={onClose}>Cancel</button>
+                </div>
+                <p className="region-hint">Paint over the area to change. Everything else, including the hero item, is kept pixel for pixel.</p>
+                <div>
+                    <button className={`preset-btn ${tool === 'brush' ? 'active' : ''}`} onClick={() => setTool('brush')}>Brush</button>
+                    <button className={`preset-btn ${tool === 'lasso' ? 'active' : ''}`} onClick={() => setTool('lasso')}>Lasso</button>
+                    <button className={`preset-btn ${tool === 'erase' ? 'active' : ''}`} onClick={() => setTool('erase')}>Erase</button>
+                    <button className="preset-btn" onClick={handleClear} disabled={!hasMask}>Clear</button>
+                </div>
+                {tool !== 'lasso' && (
+                    <label className="region-size">
+                        Brush size
+                        <input type="range" min={8} max={160} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+                    </label>
+                )}
+                <textarea
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    placeholder="What should change here? e.g. 'Remove the wrinkle', 'Replace the background with a plain grey wall'"
+                />
+                {error && <p className="region-error">{error}</p>}
+                <button className="download-btn" disabled={!canApply} onClick={() => canvasRef.current && onApply(exportMask(canvasRef.current), instruction.trim())}>
+                    {disabled ? 'Editing...' : 'Apply Edit'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+
+interface FidelityControlsProps {
+    settings: FidelitySettings;
+    onChange: (settings: FidelitySettings) => void;
+}
+
+const FidelityControls: React.FC<FidelityControlsProps> = ({ settings, onChange }) => {
+    const level = !settings.enabled ? 'off' : settings.autoRetry ? 'retry' : 'flag';
+    const setLevel = (next: typeof level) => onChange({ ...settings, enabled: next !== 'off', autoRetry: next === 'retry' });
+
+    return (
+        <>
+            <div className="presets-container">
+                <p className="presets-title">Hero Item Check</p>
+                <div>
+                    <button className={`preset-btn ${level === 'off' ? 'active' : ''}`} onClick={() => setLevel('off')}>Off</button>
+                    <button className={`preset-btn ${level === 'flag' ? 'active' : ''}`} onClick={() => setLevel('flag')}>Flag Only</button>
+                    <button className={`preset-btn ${level === 'retry' ? 'active' : ''}`} onClick={() => setLevel('retry')}>Auto-Retry</button>
+                </div>
+            </div>
+            {level === 'retry' && (
+                <div className="presets-container">
+                    <p className="presets-title">Max Retries</p>
+                    <div>
+                        {FIDELITY_RETRY_OPTIONS.map(n => (
+                            <button key={n} className={`preset-btn ${settings.maxRetries === n ? 'active' : ''}`} onClick={() => onChange({ ...settings, maxRetries: n })}>{n}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+
+interface PreprocessControlsProps {
+    settings: PreprocessSettings;
+    onChange: (settings: PreprocessSettings) => void;
+}
+
+const PreprocessControls: React.FC<PreprocessControlsProps> = ({ settings, onChange }) => (
+    <>
+        <div className="presets-container">
+            <p className="presets-title">Item Cleanup</p>
+            <div>
+                <button className={`preset-btn ${settings.autoCrop ? 'active' : ''}`} onClick={() => onChange({ ...settings, autoCrop: !settings.autoCrop })}>Auto-Crop</button>
+                <button
+                    className={`preset-btn ${settings.removeBackground ? 'active' : ''}`}
+                    onClick={() => onChange({ ...settings, removeBackground: !settings.removeBackground })}
+                    title="Works best on plain, evenly lit backdrops"
+                >
+                    Remove Background
+                </button>
+            </div>
+        </div>
+        <div className="presets-container">
+            <p className="presets-title">Max Upload Size</p>
+            <div>
+                {MAX_DIMENSION_OPTIONS.map(size => (
+                    <button key={size} className={`preset-btn ${settings.maxDimension === size ? 'active' : ''}`} onClick={() => onChange({ ...settings, maxDimension: size })}>{size}px</button>
+                ))}
+            </div>
+        </div>
+    </>
+);
+
+
+interface PreprocessPreviewProps {
+    original: File;
+    prepared: File;
+    steps: string[];
+}
+
+const PreprocessPreview: React.FC<PreprocessPreviewProps> = ({ original, prepared, steps }) => (
+    <div className="preprocess-preview">
+        <figure>
+            <FileThumbnail file={original} alt="Original upload" />
+            <figcaption>Before · {formatFileSize(original.size)}</figcaption>
+        </figure>
+        <figure>
+            <FileThumbnail file={prepared} alt="Prepared for the model" />
+            <figcaption>After · {formatFileSize(prepared.size)}</figcaption>
+        </figure>
+        {steps.length > 0 && (
+            <ul>
+                {steps.map(step => <li key={step}>{step}</li>)}
+            </ul>
+        )}
+    </div>
+);
+
+interface FailureNoticeProps {
+    message: string;
+    // Set for model failures, which get a specific title and recovery action.
+    failure: ModelError | null;
+    onRecover: (action: RecoveryAction) => void;
+    // Shown over the current image instead of in its place.
+    isOverlay?: boolean;
+}
+
+const FailureNotice: React.FC<FailureNoticeProps> = ({ message, failure, onRecover, isOverlay }) => {
+    const guide = failure ? FAILURE_GUIDES[failure.kind] : null;
+    return (
+        <div className={`error-message ${isOverlay ? 'overlay' : ''}`} role="alert">
+            <h2>{guide?.title ?? 'Alchemy Failed'}</h2>
+            <p>{message}</p>
+            {failure?.details.modelText && (
+                <blockquote className="model-reply">
+                    <span>The model replied:</span> {failure.details.modelText}
+                </blockquote>
+            )}
+            {guide?.action && (
+                <button className="start-over-btn" onClick={() => onRecover(guide.action!.kind)}>{guide.action.label}</button>
+            )}
+        </div>
+    );
+};
+
+const FidelityBadge: React.FC<{ report: FidelityReport; attempts?: number }> = ({ report, attempts = 1 }) => {
+    const [isOpen, setOpen] = useState(false);
+
+    return (
+        <div className={`fidelity-badge ${report.passed ? 'passed' : 'failed'}`}>
+            <button onClick={() => setOpen(!isOpen)} title="Hero item fidelity">
+                {report.passed ? 'Fidelity' : 'Check hero item'} {report.score}
+            </button>
+            {isOpen && (
+                <div className="fidelity-details">
+                    {report.discrepancies.length > 0 ? (
+                        <ul>
+                            {report.discrepancies.map((discrepancy, i) => <li key={i}>{discrepancy}</li>)}
+                        </ul>
+                    ) : (
+                        <p>No discrepancies found.</p>
+                    )}
+                    <p className="fidelity-metrics">
+                        {report.modelScore !== null && `Inspector ${report.modelScore}/100 · `}
+                        Color {Math.round(report.colorSimilarity * 100)}% · Structure {Math.round(report.perceptualSimilarity * 100)}%
+                        {attempts > 1 && ` · Best of ${attempts} attempts`}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+interface ExtendCanvasPanelProps {
+    image: string;
+    disabled: boolean;
+    error: string | null;
+    onExtend: (ratio: AspectRatio) => void;
+    onClose: () => void;
+}
+
+const ExtendCanvasPanel: React.FC<ExtendCanvasPanelProps> = ({ image, disabled, error, onExtend, onClose }) => {
+    const [currentValue, setCurrentValue] = useState<number | null>(null);
+    const [ratio, setRatio] = useState<AspectRatio | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadImage(image).then(img => !cancelled && setCurrentValue(img.naturalWidth / img.naturalHeight));
+        return () => { cancelled = true; };
+    }, [image]);
+
+    // Ratios within 2% of the current frame would only add a sliver of canvas.
+    const isCurrent = (r: AspectRatio) => currentValue !== null && Math.abs(getAspectValue(r) / currentValue - 1) < 0.02;
+
+    return (
+        <div className="casting-panel">
+            <div className="casting-panel-header">
+                <p className="presets-title">Extend Canvas</p>
+                <button className="link-btn" onClick={onClose}>Cancel</button>
+            </div>
+            <p className="region-hint">Outpaints the scene to a new frame. The original pixels are kept exactly as they are.</p>
+            <div className="presets-container">
+                <div>
+                    {ASPECT_RATIOS.map(r => (
+                        <button key={r} className={`preset-btn ${ratio === r ? 'active' : ''}`} disabled={isCurrent(r)} onClick={() => setRatio(r)}>{r}</button>
+                    ))}
+                </div>
+            </div>
+            {error && <p className="region-error">{error}</p>}
+            <button className="download-btn" disabled={!ratio || disabled} onClick={() => ratio && onExtend(ratio)}>
+                {disabled ? 'Extending...' : ratio ? `Extend to ${ratio}` : 'Choose a Ratio'}
+            </button>
+        </div>
+    );
+};
+
+
+interface ExportPanelProps {
+    image: string;
+    heroBox: CropRegion | null;
+    fileStem: string;
+    provenance: ProvenanceRecord;
+    // Brand kit whose logo can be stamped on the exports.
+    logoKit: BrandKit | null;
+    onClose: () => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ image, heroBox, fileStem, provenance, logoKit, onClose }) => {
+    const [source, setSource] = useState<HTMLImageElement | null>(null);
+    const [analysis, setAnalysis] = useState<CropAnalysis | null>(null);
+    const [presets, setPresets] = useState<ExportPreset[]>([...EXPORT_PRESETS, CUSTOM_EXPORT_PRESET]);
+    const [selectedId, setSelectedId] = useState<string>(EXPORT_PRESETS[0].id);
+    const [crops, setCrops] = useState<{ [presetId: string]: CropRegion }>({});
+    const [isExporting, setIsExporting] = useState(false);
+    const [includeManifest, setIncludeManifest] = useState(true);
+    const [includeLogo, setIncludeLogo] = useState(true);
+    const [status, setStatus] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ pointerX: number; pointerY: number; crop: CropRegion } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadImage(image)
+            .then(async img => {
+                const result = await analyzeForCrop(img, heroBox);
+                if (cancelled) return;
+                setSource(img);
+                setAnalysis(result);
+                setCrops({});
+            })
+            .catch(err => {
+                console.error("Error preparing export:", err);
+                setExportError("Could not prepare the image for export.");
+            });
+        return () => { cancelled = true; };
+    }, [image, heroBox]);
+
+    const preset = presets.find(p => p.id === selectedId)!;
+    const aspectOf = (p: ExportPreset) => p.width / p.height;
+    const getCrop = (p: ExportPreset) => crops[p.id] ?? (analysis ? findSmartCrop(analysis, aspectOf(p)) : null);
+    const crop = getCrop(preset);
+    const maxCrop = source ? getMaxCrop(source.naturalWidth / source.naturalHeight, aspectOf(preset)) : null;
+    const logoOverlay = includeLogo && logoKit ? (ctx: CanvasRenderingContext2D, width: number, height: number) => drawBrandLogo(ctx, width, height, logoKit) : null;
+
+    const updatePreset = (patch: Partial<ExportPreset>) => {
+        setPresets(prev => prev.map(p => p.id === preset.id ? { ...p, ...patch } : p));
+        // A new aspect ratio invalidates any manual crop.
+        if (patch.width || patch.height) setCrops(prev => { const { [preset.id]: _, ...rest } = prev; return rest; });
+    };
+
+    const clampCrop = (next: CropRegion): CropRegion => ({
+        ...next,
+        x: Math.min(1 - next.width, Math.max(0, next.x)),
+        y: Math.min(1 - next.height, Math.max(0, next.y)),
+    });
+
+    const handleZoom = (zoom: number) => {
+        if (!crop || !maxCrop) return;
+        const width = maxCrop.width / zoom;
+        const height = maxCrop.height / zoom;
+        setCrops(prev => ({
+            ...prev,
+            [preset.id]: clampCrop({ x: crop.x + (crop.width - width) / 2, y: crop.y + (crop.height - height) / 2, width, height }),
+        }));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!crop) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        const stage = stageRef.current;
+        if (!drag || !stage) return;
+        const rect = stage.getBoundingClientRect();
+        setCrops(prev => ({
+            ...prev,
+            [preset.id]: clampCrop({
+                ...drag.crop,
+                x: drag.crop.x + (e.clientX - drag.pointerX) / rect.width,
+                y: drag.crop.y + (e.clientY - drag.pointerY) / rect.height,
+            }),
+        }));
+    };
+
+    const runExport = async (task: () => Promise<void>) => {
+        setIsExporting(true);
+        setExportError(null);
+        setStatus(null);
+        try {
+            await task();
+        } catch (err) {
+            console.error("Export failed:", err);
+            setExportError(err instanceof Error ? err.message : "An unknown error occurred.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const describeResult = (result: ExportResult, p: ExportPreset) => result.fitsLimit
+        ? `${result.filename}: ${formatFileSize(result.blob.size)}${p.format !== 'png' ? ` at ${Math.round(result.quality * 100)}% quality` : ''}`
+        : `${result.filename}: ${formatFileSize(result.blob.size)}, still over the ${formatFileSize(p.maxKB! * 1024)} limit at the lowest quality`;
+
+    const handleExportOne = () => runExport(async () => {
+        if (!source || !crop) return;
+        const result = await renderExport(source, crop, preset, fileStem, provenance, logoOverlay);
+        downloadBlob(result.blob, result.filename);
+        if (includeManifest) downloadBlob(await buildExportManifest(provenance, [{ preset, result }]), `${fileStem}-${preset.id}.json`);
+        setStatus(describeResult(result, preset));
+    });
+
+    const handleExportAll = () => runExport(async () => {
+        if (!source) return;
+        const entries: ZipEntry[] = [];
+        const exports: Array<{ preset: ExportPreset; result: ExportResult }> = [];
+        const warnings: string[] = [];
+        for (const p of presets.filter(p => p.id !== CUSTOM_EXPORT_PRESET.id)) {
+            // One failed preset (e.g. AVIF without browser support) shouldn't lose the rest of the zip.
+            try {
+                const result = await renderExport(source, getCrop(p)!, p, fileStem, provenance, logoOverlay);
+                entries.push({ path: result.filename, data: new Uint8Array(await result.blob.arrayBuffer()) });
+                exports.push({ preset: p, result });
+                if (!result.fitsLimit) warnings.push(describeResult(result, p));
+            } catch (err) {
+                console.error(`Export of ${p.name} failed:`, err);
+                warnings.push(`${p.name}: ${err instanceof Error ? err.message : "An unknown error occurred."}`);
+            }
+        }
+        if (exports.length === 0) throw new Error(`No presets could be exported. ${warnings.join(' ')}`);
+        if (includeManifest) {
+            entries.push({ path: 'manifest.json', data: new Uint8Array(await (await buildExportManifest(provenance, exports)).arrayBuffer()) });
+        }
+        downloadBlob(createZip(entries), `${fileStem}-all-presets.zip`);
+        setStatus([`Exported ${exports.length} presets.`, ...warnings].join('\n'));
+    });
+
+    const channels = [...new Set(presets.map(p => p.channel))];
+    const zoom = crop && maxCrop ? maxCrop.width / crop.width : 1;
+
+    return (
+        <div className="export-panel">
+            <div className="export-stage-area">
+                <div className="export-stage" ref={stageRef}>
+                    <img src={image} alt="Image being exported" />
+                    {crop && (
+                        <div
+                            className="export-crop"
+                            style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={() => { dragRef.current = null; }}
+                            onPointerCancel={() => { dragRef.current = null; }}
+                        />
+                    )}
+                </div>
+                <p className="region-hint">Drag the frame to adjust the crop for {preset.name}.</p>
+            </div>
+            <div className="export-controls">
+                <div className="casting-panel-header">
+                    <p className="presets-title">Export</p>
+                    <button className="link-btn" onClick={onClose}>Close</button>
+                </div>
+                {channels.map(channel => (
+                    <div key={channel} className="presets-container">
+                        <p className="presets-title">{channel}</p>
+                        <div>
+                            {presets.filter(p => p.channel === channel).map(p => (
+                                <button key={p.id} className={`preset-btn ${p.id === selectedId ? 'active' : ''}`} onClick={() => setSelectedId(p.id)} title={`${p.width}×${p.height}`}>
+                                    {p.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                <div className="export-fields">
+                    <label>
+                        Width
+                        <input type="number" min={16} max={8192} value={preset.width} disabled={preset.id !== CUSTOM_EXPORT_PRESET.id} onChange={(e) => updatePreset({ width: Math.max(16, Number(e.target.value) || 16) })} />
+                    </label>
+                    <label>
+                        Height
+                        <input type="number" min={16} max={8192} value={preset.height} disabled={preset.id !== CUSTOM_EXPORT_PRESET.id} onChange={(e) => updatePreset({ height: Math.max(16, Number(e.target.value) || 16) })} />
+                    </label>
+                    <label>
+                        Format
+                        <select value={preset.format} onChange={(e) => updatePreset({ format: e.target.value as ExportFormat })}>
+                            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                                <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Max size (KB)
+                        <input type="number" min={10} value={preset.maxKB ?? ''} placeholder="No limit" onChange={(e) => updatePreset({ maxKB: e.target.value ? Number(e.target.value) : null })} />
+                    </label>
+                    {preset.format !== 'png' && (
+                        <label className="wide">
+                            Quality {Math.round(preset.quality * 100)}%
+                            <input type="range" min={30} max={100} value={Math.round(preset.quality * 100)} onChange={(e) => updatePreset({ quality: Number(e.target.value) / 100 })} />
+                        </label>
+                    )}
+                    <label className="wide">
+                        Zoom
+                        <input type="range" min={1} max={3} step={0.05} value={zoom} disabled={!crop} onChange={(e) => handleZoom(Number(e.target.value))} />
+                    </label>
+                </div>
+                <button className="link-btn" onClick={() => setCrops(prev => { const { [preset.id]: _, ...rest } = prev; return rest; })} disabled={!crops[preset.id]}>
+                    Reset to Smart Crop
+                </button>
+                <label className="export-toggle">
+                    <input type="checkbox" checked={includeManifest} onChange={(e) => setIncludeManifest(e.target.checked)} />
+                    Include JSON manifest
+                </label>
+                {logoKit && (
+                    <label className="export-toggle">
+                        <input type="checkbox" checked={includeLogo} onChange={(e) => setIncludeLogo(e.target.checked)} />
+                        Add {logoKit.name} logo
+                    </label>
+                )}
+                {status && <p className="export-status">{status}</p>}
+                {exportError && <p className="region-error">{exportError}</p>}
+                <button className="download-btn" onClick={handleExportOne} disabled={!crop || isExporting}>
+                    Download {preset.name}
+                </button>
+                <button className="start-over-btn" onClick={handleExportAll} disabled={!analysis || isExporting}>
+                    {isExporting ? 'Exporting...' : 'Export All Presets (.zip)'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+
+interface ReviewControlsProps {
+    node: HistoryNode;
+    onRate: (rating: number | undefined) => void;
+    onToggleWinner: () => void;
+}
+
+const ReviewControls: React.FC<ReviewControlsProps> = ({ node, onRate, onToggleWinner }) => (
+    <div className="review-controls">
+        <div className="rating-stars" role="radiogroup" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map(star => (
+                <button
+                    key={star}
+                    className={(node.rating ?? 0) >= star ? 'filled' : ''}
+                    role="radio"
+                    aria-checked={node.rating === star}
+                    aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                    // Clicking the current rating clears it.
+                    onClick={() => onRate(node.rating === star ? undefined : star)}
+                >
+                    ★
+                </button>
+            ))}
+        </div>
+        <button className={`winner-btn ${node.isWinner ? 'active' : ''}`} onClick={onToggleWinner} aria-pressed={!!node.isWinner}>
+            {node.isWinner ? 'Winner' : 'Pick Winner'}
+        </button>
+    </div>
+);
+
+
+interface CompareViewProps {
+    // The active version first.
+    nodes: HistoryNode[];
+    labels: Map<string, string>;
+    onRate: (id: string, rating: number | undefined) => void;
+    onToggleWinner: (id: string) => void;
+}
+
+const CompareView: React.FC<CompareViewProps> = ({ nodes, labels, onRate, onToggleWinner }) => {
+    const [layout, setLayout] = useState<CompareLayout>('grid');
+    const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+    const [swipePosition, setSwipePosition] = useState(50);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+    const canSwipe = nodes.length === 2;
+    const currentLayout = canSwipe ? layout : 'grid';
+
+    // A native listener, since React's wheel handlers are passive and can't stop the page scrolling.
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            const frame = (e.target as HTMLElement).closest('.compare-frame');
+            if (!frame) return;
+            e.preventDefault();
+            const rect = frame.getBoundingClientRect();
+            const px = e.clientX - rect.left - rect.width / 2;
+            const py = e.clientY - rect.top - rect.height / 2;
+            setView(prev => zoomView(prev, e.deltaY < 0 ? 1.15 : 1 / 1.15, px, py));
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (view.scale === 1) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        setView(prev => ({ ...prev, x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const frameProps = {
+        className: `compare-frame ${view.scale > 1 ? 'zoomed' : ''}`,
+        onPointerDown: handlePointerDown,
+        onPointerMove: handlePointerMove,
+        onPointerUp: handlePointerUp,
+        onPointerCancel: handlePointerUp,
+    };
+    const imageStyle = { transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` };
+
+    const renderCaption = (node: HistoryNode, index: number) => (
+        <div className="compare-caption" key={node.id}>
+            <span>v{labels.get(node.id)}{index === 0 && ' (active)'}</span>
+            <ReviewControls node={node} onRate={(rating) => onRate(node.id, rating)} onToggleWinner={() => onToggleWinner(node.id)} />
+        </div>
+    );
+
+    return (
+        <div className="compare-view" ref={containerRef}>
+            <div className="compare-toolbar">
+                <div>
+                    <button className={`preset-btn ${currentLayout === 'grid' ? 'active' : ''}`} onClick={() => setLayout('grid')}>
+                        {nodes.length > 2 ? '4-Up' : '2-Up'}
+                    </button>
+                    <button
+                        className={`preset-btn ${currentLayout === 'swipe' ? 'active' : ''}`}
+                        onClick={() => setLayout('swipe')}
+                        disabled={!canSwipe}
+                        title={canSwipe ? undefined : 'Swipe compares exactly two versions'}
+                    >
+                        Swipe
+                    </button>
+                </div>
+                <div className="compare-zoom">
+                    <button className="preset-btn" onClick={() => setView(prev => zoomView(prev, 1 / ZOOM_STEP))} disabled={view.scale === 1} aria-label="Zoom out">&minus;</button>
+                    <span>{Math.round(view.scale * 100)}%</span>
+                    <button className="preset-btn" onClick={() => setView(prev => zoomView(prev, ZOOM_STEP))} disabled={view.scale === MAX_ZOOM} aria-label="Zoom in">+</button>
+                    <button className="link-btn" onClick={() => setView(IDENTITY_VIEW)} disabled={view.scale === 1}>Reset</button>
+                </div>
+            </div>
+            {currentLayout === 'swipe' ? (
+                <figure className="compare-swipe">
+                    <div {...frameProps}>
+                        <div className="compare-layer">
+                            <img src={nodes[1].image} alt={`Version ${labels.get(nodes[1].id)}`} style={imageStyle} draggable={false} />
+                        </div>
+                        {/* The active version is revealed from the left up to the divider. */}
+                        <div className="compare-layer" style={{ clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}>
+                            <img src={nodes[0].image} alt={`Version ${labels.get(nodes[0].id)}`} style={imageStyle} draggable={false} />
+                        </div>
+                        <div className="compare-divider" style={{ left: `${swipePosition}%` }} />
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={swipePosition}
+                        onChange={(e) => setSwipePosition(Number(e.target.value))}
+                        aria-label="Swipe position"
+                    />
+                    <figcaption className="compare-swipe-captions">
+                        {nodes.map(renderCaption)}
+                    </figcaption>
+                </figure>
+            ) : (
+                <div className={`compare-grid ${nodes.length > 2 ? 'four-up' : ''}`}>
+                    {nodes.map((node, index) => (
+                        <figure key={node.id}>
+                            <div {...frameProps}>
+                                <img src={node.image} alt={`Version ${labels.get(node.id)}`} style={imageStyle} draggable={false} />
+                            </div>
+                            <figcaption>{renderCaption(node, index)}</figcaption>
+                        </figure>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+interface HistoryFilmstripProps {
+    nodes: HistoryNode[];
+    activeNodeId: string | null;
+    compareNodeIds: string[];
+    onSelect: (id: string) => void;
+    onToggleCompare: (id: string) => void;
+    disabled: boolean;
+}
+
+const getNodeSummary = (node: HistoryNode) => {
+    if (node.regionalEdit) return `Regional edit: ${node.regionalEdit.instruction}`;
+    if (node.canvasExtension) return `Canvas extended to ${node.canvasExtension}`;
+    return node.stylePrompt || 'No creative brief';
+};
+
+const HistoryFilmstrip: React.FC<HistoryFilmstripProps> = ({ nodes, activeNodeId, compareNodeIds, onSelect, onToggleCompare, disabled }) => {
+    const [isShortlistOnly, setShortlistOnly] = useState(false);
+    const labels = getVersionLabels(nodes);
+    const winnerCount = nodes.filter(node => node.isWinner).length;
+    const isCompareFull = compareNodeIds.length >= MAX_COMPARE_VERSIONS - 1;
+    const visibleNodes = isShortlistOnly ? nodes.filter(node => node.isWinner) : nodes;
+
+    return (
+        <div className="history-filmstrip">
+            <div className="casting-panel-header">
+                <p className="presets-title">Version History</p>
+                {(winnerCount > 0 || isShortlistOnly) && (
+                    <button className="link-btn" onClick={() => setShortlistOnly(!isShortlistOnly)}>
+                        {isShortlistOnly ? 'Show All' : `Winners (${winnerCount})`}
+                    </button>
+                )}
+            </div>
+            <div className="history-track">
+                {visibleNodes.map((node) => {
+                    const isActive = node.id === activeNodeId;
+                    const isCompared = compareNodeIds.includes(node.id);
+                    const isFlagged = node.fidelity?.passed === false;
+                    const parentLabel = node.parentId ? labels.get(node.parentId) : null;
+                    return (
+                        <div key={node.id} className={`history-item ${isActive ? 'active' : ''} ${isCompared ? 'compared' : ''} ${isFlagged ? 'flagged' : ''}`}>
+                            <button
+                                className="history-thumb"
+                                onClick={() => onSelect(node.id)}
+                                disabled={disabled}
+                                title={`${getNodeSummary(node)}\n${new Date(node.createdAt).toLocaleString()}`}
+                            >
+                                <img src={node.image} alt={`Version ${labels.get(node.id)}`} />
+                                {node.isWinner && <span className="history-winner" title="Winner">Winner</span>}
+                            </button>
+                            <span className="history-label">
+                                v{labels.get(node.id)}
+                                {isFlagged && <span className="history-flag" title="Hero item check failed"> !</span>}
+                                {node.rating && <span className="history-rating" title={`Rated ${node.rating} of 5`}> ★{node.rating}</span>}
+                                {parentLabel && <span className="history-parent"> from v{parentLabel}</span>}
+                            </span>
+                            {!isActive && (
+                                <button
+                                    className="history-compare-btn"
+                                    onClick={() => onToggleCompare(node.id)}
+                                    disabled={disabled || (!isCompared && isCompareFull)}
+                                >
+                                    {isCompared ? 'Close' : 'Compare'}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+
+const FileThumbnail: React.FC<{ file: File; alt: string }> = ({ file, alt }) => {
+    const [src, setSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setSrc(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+
+    return src ? <img src={src} alt={alt} /> : null;
+};
+
+
+interface CategorySelectProps {
+    id?: string;
+    value: string | null;
+    onChange: (category: string) => void;
+}
+
+const CategorySelect: React.FC<CategorySelectProps> = ({ id, value, onChange }) => (
+    <select id={id} className="category-select" value={value ?? 'Other'} onChange={(e) => onChange(e.target.value)} aria-label="Item category">
+        {[...ITEM_CATEGORIES, 'Other'].map(category => <option key={category} value={category}>{category}</option>)}
+    </select>
+);
+
+
+interface ItemAnalysisPanelProps {
+    analysis: ItemAnalysis;
+    onChange: (analysis: ItemAnalysis) => void;
+    // Offered when analysis failed.
+    onRetry?: () => void;
+}
+
+// Collapsed it summarizes what the generation prompts will state about the item; expanded every
+// field can be corrected, and corrections are kept with the project.
+const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ analysis, onChange, onRetry }) => {
+    const [isEditing, setIsEditing] = useState(analysis.status === 'failed');
+
+    const update = (patch: Partial<ItemAnalysis>) => onChange({ ...analysis, ...patch, status: 'edited' });
+    const otherCategories = analysis.categories.filter(category => category !== analysis.category);
+
+    const textField = (key: 'subcategory' | 'material' | 'pattern' | 'fit', label: string, placeholder: string) => (
+        <div className="brief-field">
+            <label htmlFor={`analysis-${key}`}>{label}</label>
+            <input id={`analysis-${key}`} type="text" value={analysis[key]} onChange={(e) => update({ [key]: e.target.value })} placeholder={placeholder} />
+        </div>
+    );
+
+    return (
+        <div className="item-analysis">
+            <div className="casting-panel-header">
+                <p className="presets-title">Item Analysis{analysis.status === 'edited' && ' (edited)'}</p>
+                <button className="link-btn" onClick={() => setIsEditing(!isEditing)}>{isEditing ? 'Done' : 'Edit'}</button>
+            </div>
+            {analysis.status === 'failed' && (
+                <p className="region-error">
+                    The item couldn't be analyzed automatically{analysis.error ? `: ${analysis.error}` : '.'} Please set its category and details.
+                    {onRetry && <> <button className="link-btn" onClick={onRetry}>Analyze Again</button></>}
+                </p>
+            )}
+            <div className="item-colors">
+                {analysis.colors.map((color, index) => (
+                    <span key={index} className="item-color">
+                        {isEditing ? (
+                            <>
+                                <input
+                                    type="color"
+                                    value={color}
+                                    onChange={(e) => update({ colors: analysis.colors.map((c, i) => i === index ? e.target.value : c) })}
+                                    aria-label={`Color ${index + 1}`}
+                                />
+                                <button className="talent-remove-btn" onClick={() => update({ colors: analysis.colors.filter((_, i) => i !== index) })} aria-label={`Remove color ${index + 1}`}>&times;</button>
+                            </>
+                        ) : (
+                            <span className="item-swatch" style={{ backgroundColor: color }} title={color} />
+                        )}
+                    </span>
+                ))}
+                {isEditing && analysis.colors.length < MAX_ITEM_COLORS && (
+                    <button className="link-btn" onClick={() => update({ colors: [...analysis.colors, '#808080'] })}>Add color</button>
+                )}
+            </div>
+            {!isEditing ? (
+                <ul className="item-analysis-summary">
+                    {describeItemAnalysis(analysis).filter(line => !line.startsWith('Colors:')).map(line => <li key={line}>{line}</li>)}
+                </ul>
+            ) : (
+                <>
+                    <div className="brief-fields">
+                        <div className="brief-field">
+                            <label htmlFor="analysis-category">Category</label>
+                            <CategorySelect id="analysis-category" value={analysis.category} onChange={(category) => onChange(withCategory(analysis, category))} />
+                        </div>
+                        <div className="brief-field">
+                            <label htmlFor="analysis-also">Also Fits</label>
+                            <select
+                                id="analysis-also"
+                                className="category-select"
+                                value=""
+                                onChange={(e) => e.target.value && update({ categories: [...analysis.categories, e.target.value] })}
+                            >
+                                <option value="">{otherCategories.length > 0 ? otherCategories.join(', ') : 'None'}</option>
+                                {ITEM_CATEGORIES.filter(category => !analysis.categories.includes(category)).map(category => (
+                                    <option key={category} value={category}>Add {category}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {textField('subcategory', 'Type', 'e.g., denim trucker jacket')}
+                        {textField('material', 'Material', 'e.g., washed cotton denim')}
+                        {textField('pattern', 'Pattern', 'e.g., solid, pinstripe')}
+                        {textField('fit', 'Fit', 'e.g., oversized, slim')}
+                        <div className="brief-field">
+                            <label htmlFor="analysis-gender">Made For</label>
+                            <select id="analysis-gender" className="category-select" value={analysis.gender} onChange={(e) => update({ gender: e.target.value })}>
+                                <option value="">Unspecified</option>
+                                {GENDER_TARGETS.map(target => <option key={target} value={target}>{target}</option>)}
+                            </select>
+                        </div>
+                        <div className="brief-field wide">
+                            <label htmlFor="analysis-details">Notable Details (one per line)</label>
+                            <textarea
+                                id="analysis-details"
+                                value={analysis.details.join('\n')}
+                                onChange={(e) => update({ details: e.target.value.split('\n') })}
+                                onBlur={() => update({ details: analysis.details.map(detail => detail.trim()).filter(Boolean) })}
+                                placeholder="e.g., embroidered logo on the left chest"
+                            />
+                        </div>
+                    </div>
+                    {otherCategories.length > 0 && (
+                        <button className="link-btn" onClick={() => update({ categories: [analysis.category] })}>Clear extra categories</button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+
+interface OutfitItemListProps {
+    items: OutfitItem[];
+    onChange: (id: string, patch: Partial<OutfitItem>) => void;
+    onRemove: (id: string) => void;
+}
+
+const OutfitItemList: React.FC<OutfitItemListProps> = ({ items, onChange, onRemove }) => (
+    <div className="batch-items">
+        {items.map(item => (
+            <div key={item.id} className="batch-item outfit-item">
+                <FileThumbnail file={item.file} alt={item.file.name} />
+                <div className="batch-item-info">
+                    {item.isIdentifying ? (
+                        <span className="batch-item-category identifying-text">Identifying...</span>
+                    ) : (
+                        <CategorySelect value={item.category} onChange={(category) => onChange(item.id, { category, analysis: withCategory(item.analysis, category) })} />
+                    )}
+                    <input
+                        type="text"
+                        value={item.notes}
+                        onChange={(e) => onChange(item.id, { notes: e.target.value })}
+                        placeholder="Extra integrity rules, e.g. 'keep the gold buttons'"
+                    />
+                </div>
+                <button
+                    className={`preset-btn ${item.role === 'primary' ? 'active' : ''}`}
+                    onClick={() => onChange(item.id, { role: item.role === 'primary' ? 'secondary' : 'primary' })}
+                    title="Primary pieces are featured prominently; secondary pieces complete the look"
+                >
+                    {item.role === 'primary' ? 'Primary' : 'Secondary'}
+                </button>
+                <button className="remove-btn" onClick={() => onRemove(item.id)} aria-label="Remove item">
+                    &times;
+                </button>
+            </div>
+        ))}
+    </div>
+);
+
+
+interface ModeSwitchProps {
+    mode: StudioMode;
+    onChange: (mode: StudioMode) => void;
+    onShowUsage: () => void;
+}
+
+const ModeSwitch: React.FC<ModeSwitchProps> = ({ mode, onChange, onShowUsage }) => (
+    <div className="mode-switch">
+        <button className={`preset-btn ${mode === 'single' ? 'active' : ''}`} onClick={() => onChange('single')}>Single Look</button>
+        <button className={`preset-btn ${mode === 'batch' ? 'active' : ''}`} onClick={() => onChange('batch')}>Batch</button>
+        <button className={`preset-btn ${mode === 'shotlist' ? 'active' : ''}`} onClick={() => onChange('shotlist')}>Shot List</button>
+        <button className="link-btn" onClick={onShowUsage}>Usage</button>
+    </div>
+);
+
+
+interface UsageTableProps {
+    title: string;
+    rows: UsageTotals[];
+}
+
+const UsageTable: React.FC<UsageTableProps> = ({ title, rows }) => (
+    <table className="usage-table">
+        <thead>
+            <tr>
+                <th>{title}</th>
+                <th>Calls</th>
+                <th>Failed</th>
+                <th>Tokens</th>
+                <th>Est. Cost</th>
+            </tr>
+        </thead>
+        <tbody>
+            {rows.map(row => (
+                <tr key={row.key}>
+                    <td>{row.label}</td>
+                    <td>{row.calls}</td>
+                    <td>{row.failures}</td>
+                    <td>{row.tokens.toLocaleString()}</td>
+                    <td title={row.isPartial ? 'Some calls had no price or token counts, so this is a lower bound.' : undefined}>
+                        {formatCost(row.cost)}{row.isPartial && '+'}
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const USAGE_RANGES: Array<{ days: number | null; label: string }> = [
+    { days: 7, label: '7 Days' },
+    { days: 30, label: '30 Days' },
+    { days: 90, label: '90 Days' },
+    { days: null, label: 'All Time' },
+];
+const RECENT_USAGE_COUNT = 20;
+
+interface UsageDashboardProps {
+    records: UsageRecord[];
+    budget: BudgetSettings;
+    onBudgetChange: (budget: BudgetSettings) => void;
+    user: string;
+    onUserChange: (user: string) => void;
+    onClose: () => void;
+}
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, budget, onBudgetChange, user, onUserChange, onClose }) => {
+    const [rangeDays, setRangeDays] = useState<number | null>(30);
+    const [dashboardError, setDashboardError] = useState<string | null>(null);
+
+    const since = rangeDays === null ? 0 : getPeriodStart('day') - (rangeDays - 1) * 24 * 60 * 60 * 1000;
+    const visible = records.filter(record => record.timestamp >= since);
+    const [total] = summarizeUsage(visible, () => 'total', () => 'Total');
+    const byDay = summarizeUsage(visible, record => toDateKey(record.timestamp), record => toDateKey(record.timestamp)).reverse();
+    const byProject = summarizeUsage(visible, record => record.projectId ?? record.source, getProjectLabel).sort((a, b) => b.cost - a.cost);
+    const byUser = summarizeUsage(visible, record => record.user, record => record.user).sort((a, b) => b.cost - a.cost);
+    const recent = visible.slice(-RECENT_USAGE_COUNT).reverse();
+    const periodSpend = getPeriodSpend(records, budget.period);
+    const budgetWarning = getBudgetWarning(records, budget);
+    const meterLimit = budget.hardLimit ?? budget.softLimit;
+
+    const readLimit = (value: string): number | null => value.trim() !== '' && Number.isFinite(Number(value)) ? Math.max(0, Number(value)) : null;
+
+    const handleClear = () => {
+        if (!window.confirm("Clear the usage log? Export a CSV first if you need to keep it.")) return;
+        setDashboardError(null);
+        clearUsageRecords().catch(err => {
+            console.error("Error clearing the usage log:", err);
+            setDashboardError(err instanceof Error ? err.message : "An unknown error occurred.");
+        });
+    };
+
+    return (
+        <div className="usage-overlay" onClick={onClose}>
+            <div className="usage-dashboard" role="dialog" aria-label="Usage" onClick={(e) => e.stopPropagation()}>
+                <div className="casting-panel-header">
+                    <p className="presets-title">Usage</p>
+                    <button className="link-btn" onClick={onClose}>Close</button>
+                </div>
+
+                <div className="usage-budget">
+                    <p>
+                        {budget.period === 'day' ? 'Today' : 'This month'}: <strong>{formatCost(periodSpend)}</strong>
+                        {meterLimit !== null && <> of {formatCost(meterLimit)}</>}
+                    </p>
+                    {meterLimit !== null && (
+                        <div className={`usage-meter ${budgetWarning ? 'warning' : ''}`}>
+                            <div style={{ width: `${Math.min(100, meterLimit > 0 ? periodSpend / meterLimit * 100 : 100)}%` }} />
+                        </div>
+                    )}
+                    {budgetWarning && <p className="region-error">{budgetWarning}</p>}
+                    <div className="export-fields">
+                        <label>
+                            Budget period
+                            <select value={budget.period} onChange={(e) => onBudgetChange({ ...budget, period: e.target.value as BudgetPeriod })}>
+                                <option value="day">Daily</option>
+                                <option value="month">Monthly</option>
+                            </select>
+                        </label>
+                        <label>
+                            Your name
+                            <input type="text" value={user} onChange={(e) => onUserChange(e.target.value)} placeholder="Shown in the log" />
+                        </label>
+                        <label>
+                            Soft limit (USD)
+                            <input type="number" min={0} step="any" value={budget.softLimit ?? ''} placeholder="None" onChange={(e) => onBudgetChange({ ...budget, softLimit: readLimit(e.target.value) })} />
+                        </label>
+                        <label>
+                            Hard limit (USD)
+                            <input type="number" min={0} step="any" value={budget.hardLimit ?? ''} placeholder="None" onChange={(e) => onBudgetChange({ ...budget, hardLimit: readLimit(e.target.value) })} />
+                        </label>
+                    </div>
+                    <p className="region-hint">Past the soft limit the studio warns; past the hard limit it stops generating until the next {budget.period}. Costs are estimates from list prices.</p>
+                </div>
+
+                <div className="usage-actions">
+                    <div className="preset-options">
+                        {USAGE_RANGES.map(range => (
+                            <button key={range.label} className={`preset-btn ${rangeDays === range.days ? 'active' : ''}`} onClick={() => setRangeDays(range.days)}>{range.label}</button>
+                        ))}
+                    </div>
+                    <div className="project-library-actions">
+                        <button className="preset-btn" onClick={() => downloadBlob(buildUsageCsv(visible), `alchemist-usage-${toDateKey(Date.now())}.csv`)} disabled={visible.length === 0}>Export CSV</button>
+                        <button className="preset-btn" onClick={handleClear} disabled={records.length === 0}>Clear Log</button>
+                    </div>
+                </div>
+                {dashboardError && <div className="error-message">{dashboardError}</div>}
+
+                {!total ? (
+                    <p className="project-empty">No model calls in this period.</p>
+                ) : (
+                    <>
+                        <p className="usage-total">
+                            {total.calls} calls, {total.failures} failed, {total.tokens.toLocaleString()} tokens, {formatCost(total.cost)}{total.isPartial && '+'} estimated
+                        </p>
+                        <UsageTable title="Day" rows={byDay} />
+                        <UsageTable title="Project" rows={byProject} />
+                        <UsageTable title="User" rows={byUser} />
+                        <table className="usage-table">
+                            <thead>
+                                <tr>
+                                    <th>Recent Calls</th>
+                                    <th>Model</th>
+                                    <th>Outcome</th>
+                                    <th>Latency</th>
+                                    <th>Est. Cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {recent.map(record => (
+                                    <tr key={record.id}>
+                                        <td title={`${getProjectLabel(record)}, ${record.user}`}>
+                                            {new Date(record.timestamp).toLocaleTimeString()} {USAGE_OPERATION_LABELS[record.operation]}
+                                        </td>
+                                        <td>{record.model}</td>
+                                        <td className={record.outcome === 'success' ? '' : 'usage-failed'}>{record.outcome}</td>
+                                        <td>{(record.latencyMs / 1000).toFixed(1)}s</td>
+                                        <td>{formatCost(record.estimatedCost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+
+interface ProjectLibraryProps {
+    currentProjectId: string;
+    onOpen: (id: string) => Promise<void>;
+    onNew: () => Promise<void>;
+    onImport: (archive: File) => Promise<void>;
+    onExport: (id: string) => Promise<void>;
+    onRename: (id: string, name: string) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, onOpen, onNew, onImport, onExport, onRename, onDelete, onClose }) => {
+    const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState<string>('');
+    const [libraryError, setLibraryError] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        listProjects()
+            .then(setProjects)
+            .catch(err => {
+                console.error("Error listing projects:", err);
+                setLibraryError("Your saved projects couldn't be loaded. Local storage may be disabled in this browser.");
+            });
+    }, []);
+
+    useEffect(refresh, [refresh]);
+
+    const run = async (action: () => Promise<void>) => {
+        setLibraryError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error("Project library error:", err);
+            setLibraryError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+        refresh();
+    };
+
+    const commitRename = (id: string) => {
+        const name = draftName.trim();
+        setRenamingId(null);
+        if (name) run(() => onRename(id, name));
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const archive = e.target.files?.[0];
+        e.target.value = '';
+        if (archive) run(() => onImport(archive));
+    };
+
+    return (
+        <div className="project-library">
+            <div className="casting-panel-header">
+                <p className="presets-title">Projects</p>
+                <button className="link-btn" onClick={onClose}>Close</button>
+            </div>
+            <div className="project-library-actions">
+                <button className="preset-btn" onClick={() => run(onNew)}>New Project</button>
+                <label className="preset-btn" htmlFor="project-import">Import .zip</label>
+                <input id="project-import" type="file" accept=".zip,application/zip" onChange={handleImport} style={{ display: 'none' }} />
+            </div>
+            {libraryError && <div className="error-message">{libraryError}</div>}
+            {projects?.length === 0 && <p className="project-empty">No saved projects yet. Your work is saved here automatically.</p>}
+            <ul className="project-list">
+                {projects?.map(project => (
+                    <li key={project.id} className={`project-item ${project.id === currentProjectId ? 'active' : ''}`}>
+                        <div className="project-thumb">
+                            {project.thumbnail && <img src={project.thumbnail} alt="" />}
+                        </div>
+                        <div className="project-info">
+                            {renamingId === project.id ? (
+                                <input
+                                    type="text"
+                                    value={draftName}
+                                    autoFocus
+                                    onChange={(e) => setDraftName(e.target.value)}
+                                    onBlur={() => commitRename(project.id)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename(project.id);
+                                        if (e.key === 'Escape') setRenamingId(null);
+                                    }}
+                                />
+                            ) : (
+                                <p className="project-name">{project.name}</p>
+                            )}
+                            <p className="project-meta">
+                                {project.versionCount} version{project.versionCount === 1 ? '' : 's'} · {new Date(project.updatedAt).toLocaleString()}
+                            </p>
+                            <div className="project-item-actions">
+                                {project.id !== currentProjectId && <button className="link-btn" onClick={() => run(() => onOpen(project.id))}>Open</button>}
+                                <button className="link-btn" onClick={() => { setRenamingId(project.id); setDraftName(project.name); }}>Rename</button>
+                                <button className="link-btn" onClick={() => run(() => onExport(project.id))}>Export</button>
+                                <button
+                                    className="link-btn"
+                                    onClick={() => window.confirm(`Delete "${project.name}"? This can't be undone.`) && run(() => onDelete(project.id))}>
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+
+const SCOPE_LABELS: { [scope in PresetScope]: string } = { any: 'Single items & outfits', single: 'Single items', outfit: 'Outfits' };
+
+const describePresetTargets = (preset: StylePreset) => [
+    preset.kind === 'suggested' ? 'Suggested' : 'Style',
+    preset.categories.length > 0 ? preset.categories.join(', ') : 'All categories',
+    preset.shotTypes.length === 1 ? (preset.shotTypes[0] === 'model' ? 'On-model' : 'Product shots') : null,
+    preset.scope !== 'any' ? SCOPE_LABELS[preset.scope] : null,
+].filter(Boolean).join(' · ');
+
+interface PresetManagerProps {
+    presets: StylePreset[];
+    onSave: (presets: StylePreset[]) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const PresetManager: React.FC<PresetManagerProps> = ({ presets, onSave, onDelete, onClose }) => {
+    const [draft, setDraft] = useState<StylePreset | null>(null);
+    const [draftTags, setDraftTags] = useState<string>('');
+    const [filter, setFilter] = useState<string>('');
+    const [status, setStatus] = useState<string | null>(null);
+    const [managerError, setManagerError] = useState<string | null>(null);
+
+    const query = filter.trim().toLowerCase();
+    const visiblePresets = presets.filter(preset =>
+        !query || preset.name.toLowerCase().includes(query) || preset.tags.some(tag => tag.toLowerCase().includes(query)));
+
+    const run = async (action: () => Promise<void>) => {
+        setManagerError(null);
+        setStatus(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error("Preset library error:", err);
+            setManagerError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    const startEditing = (preset: StylePreset) => {
+        setDraft(preset);
+        setDraftTags(preset.tags.join(', '));
+    };
+
+    const updateDraft = (patch: Partial<StylePreset>) => setDraft(prev => prev && { ...prev, ...patch });
+
+    const toggleIn = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+    const handleSave = () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            setManagerError("Please give the preset a name.");
+            return;
+        }
+        const tags = draftTags.split(',').map(tag => tag.trim()).filter(Boolean);
+        run(async () => {
+            await onSave([{ ...draft, name: draft.name.trim(), tags: [...new Set(tags)], updatedAt: Date.now() }]);
+            setDraft(null);
+        });
+    };
+
+    const handleInspiration = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const { inlineData } = await fileToGenerativePart(file);
+        updateDraft({ inspiration: `data:${inlineData!.mimeType};base64,${inlineData!.data}` });
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const pack = e.target.files?.[0];
+        e.target.value = '';
+        if (!pack) return;
+        run(async () => {
+            const imported = await readPresetPack(pack);
+            const updated = imported.filter(preset => presets.some(existing => existing.id === preset.id)).length;
+            await onSave(imported);
+            setStatus(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}${updated > 0 ? ` (${updated} updated)` : ''}.`);
+        });
+    };
+
+    const handleExport = () => {
+        const name = query ? `Presets: ${filter.trim()}` : 'Presets';
+        downloadBlob(exportPresetPack(name, visiblePresets), `alchemist-presets${query ? `-${toFileSlug(filter)}` : ''}.json`);
+    };
+
+    const handleRestoreDefaults = () => {
+        if (!window.confirm("Restore the built-in presets? Any edits you made to them will be replaced.")) return;
+        run(async () => {
+            await onSave(DEFAULT_PRESETS);
+            setStatus("Built-in presets restored.");
+        });
+    };
+
+    if (draft) {
+        return (
+            <div className="project-library preset-manager">
+                <div className="casting-panel-header">
+                    <p className="presets-title">{presets.some(preset => preset.id === draft.id) ? 'Edit Preset' : 'New Preset'}</p>
+                    <button className="link-btn" onClick={() => setDraft(null)}>Cancel</button>
+                </div>
+                <div className="brief-fields">
+                    <div className="brief-field">
+                        <label htmlFor="preset-name">Name</label>
+                        <input id="preset-name" type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="e.g., Summer Campaign" />
+                    </div>
+                    <div className="brief-field">
+                        <label htmlFor="preset-tags">Tags</label>
+                        <input id="preset-tags" type="text" value={draftTags} onChange={(e) => setDraftTags(e.target.value)} placeholder="e.g., Brand A, SS25" />
+                    </div>
+                </div>
+
+                <p className="presets-title">Offer As</p>
+                <div className="preset-options">
+                    <button className={`preset-btn ${draft.kind === 'style' ? 'active' : ''}`} onClick={() => updateDraft({ kind: 'style' })}>Style Preset</button>
+                    <button className={`preset-btn ${draft.kind === 'suggested' ? 'active' : ''}`} onClick={() => updateDraft({ kind: 'suggested' })}>Suggestion</button>
+                </div>
+
+                <p className="presets-title">Item Categories {draft.categories.length === 0 && '(all)'}</p>
+                <div className="preset-options">
+                    {ITEM_CATEGORIES.map(category => (
+                        <button key={category} className={`preset-btn ${draft.categories.includes(category) ? 'active' : ''}`} onClick={() => updateDraft({ categories: toggleIn(draft.categories, category) })}>
+                            {category}
+                        </button>
+                    ))}
+                </div>
+
+                <p className="presets-title">Shot Types {draft.shotTypes.length === 0 && '(all)'}</p>
+                <div className="preset-options">
+                    <button className={`preset-btn ${draft.shotTypes.includes('model') ? 'active' : ''}`} onClick={() => updateDraft({ shotTypes: toggleIn(draft.shotTypes, 'model') })}>On-Model</button>
+                    <button className={`preset-btn ${draft.shotTypes.includes('product') ? 'active' : ''}`} onClick={() => updateDraft({ shotTypes: toggleIn(draft.shotTypes, 'product') })}>Product Shot</button>
+                </div>
+
+                <p className="presets-title">Applies To</p>
+                <div className="preset-options">
+                    {(Object.keys(SCOPE_LABELS) as PresetScope[]).map(scope => (
+                        <button key={scope} className={`preset-btn ${draft.scope === scope ? 'active' : ''}`} onClick={() => updateDraft({ scope })}>{SCOPE_LABELS[scope]}</button>
+                    ))}
+                </div>
+
+                <p className="presets-title">Brief</p>
+                <div className="brief-fields">
+                    {BRIEF_FIELDS.map(field => (
+                        <div key={field.key} className={`brief-field ${field.key === 'notes' ? 'wide' : ''}`}>
+                            <label htmlFor={`preset-${field.key}`}>{field.label}</label>
+                            <input
+                                id={`preset-${field.key}`}
+                                type="text"
+                                value={draft.fields[field.key] ?? ''}
+                                onChange={(e) => updateDraft({ fields: { ...draft.fields, [field.key]: e.target.value } })}
+                                placeholder={field.placeholder}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <p className="presets-title">Inspiration Photo</p>
+                <div className="preset-inspiration">
+                    {draft.inspiration && <img src={draft.inspiration} alt="Preset inspiration" />}
+                    <label className="preset-btn" htmlFor="preset-inspiration">{draft.inspiration ? 'Replace' : 'Add Photo'}</label>
+                    <input id="preset-inspiration" type="file" accept="image/*" onChange={handleInspiration} style={{ display: 'none' }} />
+                    {draft.inspiration && <button className="link-btn" onClick={() => updateDraft({ inspiration: null })}>Remove</button>}
+                </div>
+
+                {managerError && <div className="error-message">{managerError}</div>}
+                <button className="download-btn" onClick={handleSave}>Save Preset</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="project-library preset-manager">
+            <div className="casting-panel-header">
+                <p className="presets-title">Presets</p>
+                <button className="link-btn" onClick={onClose}>Close</button>
+            </div>
+            <div className="project-library-actions">
+                <button className="preset-btn" onClick={() => startEditing(createPreset())}>New Preset</button>
+                <label className="preset-btn" htmlFor="preset-import">Import Pack</label>
+                <input id="preset-import" type="file" accept=".json,application/json" onChange={handleImport} style={{ display: 'none' }} />
+                <button className="preset-btn" onClick={handleExport} disabled={visiblePresets.length === 0}>Export Pack</button>
+            </div>
+            <div className="brief-field preset-filter">
+                <input type="text" value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter by name or tag; Export Pack exports the filtered presets" />
+            </div>
+            {status && <p className="export-status">{status}</p>}
+            {managerError && <div className="error-message">{managerError}</div>}
+            {visiblePresets.length === 0 && <p className="project-empty">{presets.length === 0 ? 'No presets yet.' : 'No presets match this filter.'}</p>}
+            <ul className="project-list">
+                {visiblePresets.map(preset => (
+                    <li key={preset.id} className="project-item">
+                        <div className="project-thumb">
+                            {preset.inspiration && <img src={preset.inspiration} alt="" />}
+                        </div>
+                        <div className="project-info">
+                            <p className="project-name">{preset.name}</p>
+                            <p className="project-meta">{describePresetTargets(preset)}</p>
+                            {preset.tags.length > 0 && <p className="project-meta">{preset.tags.map(tag => `#${tag}`).join(' ')}</p>}
+                            <div className="project-item-actions">
+                                <button className="link-btn" onClick={() => startEditing(preset)}>Edit</button>
+                                <button className="link-btn" onClick={() => startEditing({ ...preset, id: createId(), name: `${preset.name} Copy`, tags: preset.tags.filter(tag => tag !== 'Built-in') })}>Duplicate</button>
+                                <button
+                                    className="link-btn"
+                                    onClick={() => window.confirm(`Delete "${preset.name}"? This can't be undone.`) && run(() => onDelete(preset.id))}>
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <button className="link-btn" onClick={handleRestoreDefaults}>Restore built-in presets</button>
+        </div>
+    );
+};
+
+interface BrandKitManagerProps {
+    kits: BrandKit[];
+    onSave: (kit: BrandKit) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, onSave, onDelete, onClose }) => {
+    const [draft, setDraft] = useState<BrandKit | null>(null);
+    const [draftBanned, setDraftBanned] = useState<string>('');
+    const [draftTone, setDraftTone] = useState<string>('');
+    const [managerError, setManagerError] = useState<string | null>(null);
+
+    const run = async (action: () => Promise<void>) => {
+        setManagerError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error("Brand kit library error:", err);
+            setManagerError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    const startEditing = (kit: BrandKit) => {
+        setDraft(kit);
+        setDraftBanned(kit.bannedSettings.join(', '));
+        setDraftTone(kit.toneWords.join(', '));
+    };
+
+    const updateDraft = (patch: Partial<BrandKit>) => setDraft(prev => prev && { ...prev, ...patch });
+
+    const restoreRevision = (revision: BrandKitRevision) => {
+        const rules = getBrandRules(revision);
+        updateDraft(rules);
+        setDraftBanned(rules.bannedSettings.join(', '));
+        setDraftTone(rules.toneWords.join(', '));
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            setManagerError("Please give the brand kit a name.");
+            return;
+        }
+        const split = (text: string) => unique(text.split(','));
+        const edited = { ...draft, name: draft.name.trim(), bannedSettings: split(draftBanned), toneWords: split(draftTone), diversity: draft.diversity.trim() };
+        run(async () => {
+            await onSave(reviseBrandKit(kits.find(kit => kit.id === draft.id), edited));
+            setDraft(null);
+        });
+    };
+
+    const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const { inlineData } = await fileToGenerativePart(file);
+        updateDraft({ logo: `data:${inlineData!.mimeType};base64,${inlineData!.data}` });
+    };
+
+    if (draft) {
+        const isExisting = kits.some(kit => kit.id === draft.id);
+        return (
+            <div className="project-library preset-manager">
+                <div className="casting-panel-header">
+                    <p className="presets-title">{isExisting ? `Edit Brand Kit (v${draft.version})` : 'New Brand Kit'}</p>
+                    <button className="link-btn" onClick={() => setDraft(null)}>Cancel</button>
+                </div>
+                <div className="brief-fields">
+                    <div className="brief-field wide">
+                        <label htmlFor="brand-kit-name">Name</label>
+                        <input id="brand-kit-name" type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="e.g., Main Line" />
+                    </div>
+                </div>
+
+                <p className="presets-title">Palette</p>
+                <div className="item-colors">
+                    {draft.palette.map((color, index) => (
+                        <span key={index} className="item-color">
+                            <input
+                                type="color"
+                                value={color}
+                                onChange={(e) => updateDraft({ palette: draft.palette.map((c, i) => i === index ? e.target.value : c) })}
+                                aria-label={`Palette color ${index + 1}`}
+                            />
+                            <span className="brand-kit-hex">{color}</span>
+                            <button className="talent-remove-btn" onClick={() => updateDraft({ palette: draft.palette.filter((_, i) => i !== index) })} aria-label={`Remove palette color ${index + 1}`}>&times;</button>
+                        </span>
+                    ))}
+                    <button className="link-btn" onClick={() => updateDraft({ palette: [...draft.palette, '#808080'] })}>Add color</button>
+                </div>
+
+                <div className="brief-fields">
+                    <div className="brief-field wide">
+                        <label htmlFor="brand-kit-banned">Banned Settings</label>
+                        <input id="brand-kit-banned" type="text" value={draftBanned} onChange={(e) => setDraftBanned(e.target.value)} placeholder="e.g., beaches, nightclubs, cars" />
+                    </div>
+                    <div className="brief-field wide">
+                        <label htmlFor="brand-kit-diversity">Model Casting</label>
+                        <input id="brand-kit-diversity" type="text" value={draft.diversity} onChange={(e) => updateDraft({ diversity: e.target.value })} placeholder="e.g., Vary age, ethnicity and body type across the campaign" />
+                    </div>
+                    <div className="brief-field wide">
+                        <label htmlFor="brand-kit-tone">Tone Words</label>
+                        <input id="brand-kit-tone" type="text" value={draftTone} onChange={(e) => setDraftTone(e.target.value)} placeholder="e.g., warm, effortless, optimistic" />
+                    </div>
+                </div>
+
+                <p className="presets-title">Logo-Safe Zone</p>
+                <div className="preset-options">
+                    <button className={`preset-btn ${!draft.logoSafeZone ? 'active' : ''}`} onClick={() => updateDraft({ logoSafeZone: null })}>None</button>
+                    {(Object.keys(SAFE_ZONE_LABELS) as SafeZone[]).map(zone => (
+                        <button key={zone} className={`preset-btn ${draft.logoSafeZone === zone ? 'active' : ''}`} onClick={() => updateDraft({ logoSafeZone: zone })}>{SAFE_ZONE_LABELS[zone]}</button>
+                    ))}
+                </div>
+
+                <p className="presets-title">Logo Watermark</p>
+                <div className="preset-inspiration">
+                    {draft.logo && <img src={draft.logo} alt="Brand logo" className="brand-kit-logo" />}
+                    <label className="preset-btn" htmlFor="brand-kit-logo">{draft.logo ? 'Replace' : 'Add Logo'}</label>
+                    <input id="brand-kit-logo" type="file" accept="image/png,image/svg+xml,image/webp" onChange={handleLogo} style={{ display: 'none' }} />
+                    {draft.logo && <button className="link-btn" onClick={() => updateDraft({ logo: null })}>Remove</button>}
+                </div>
+                {draft.logo && (
+                    <div className="export-fields">
+                        <label>
+                            Size {Math.round(draft.logoScale * 100)}%
+                            <input type="range" min={5} max={40} value={Math.round(draft.logoScale * 100)} onChange={(e) => updateDraft({ logoScale: Number(e.target.value) / 100 })} />
+                        </label>
+                        <label>
+                            Opacity {Math.round(draft.logoOpacity * 100)}%
+                            <input type="range" min={10} max={100} value={Math.round(draft.logoOpacity * 100)} onChange={(e) => updateDraft({ logoOpacity: Number(e.target.value) / 100 })} />
+                        </label>
+                    </div>
+                )}
+                {draft.logo && !draft.logoSafeZone && <p className="region-hint">Without a safe zone, the logo goes in the bottom right corner.</p>}
+
+                {draft.revisions.length > 0 && (
+                    <>
+                        <p className="presets-title">Earlier Versions</p>
+                        <ul className="brand-kit-revisions">
+                            {draft.revisions.map(revision => (
+                                <li key={revision.version}>
+                                    <span>v{revision.version}, {new Date(revision.savedAt).toLocaleString()}</span>
+                                    <button className="link-btn" onClick={() => restoreRevision(revision)}>Restore</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+
+                {managerError && <div className="error-message">{managerError}</div>}
+                <button className="download-btn" onClick={handleSave}>Save Brand Kit</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="project-library preset-manager">
+            <div className="casting-panel-header">
+                <p className="presets-title">Brand Kits</p>
+                <button className="link-btn" onClick={onClose}>Close</button>
+            </div>
+            <div className="project-library-actions">
+                <button className="preset-btn" onClick={() => startEditing(createBrandKit())}>New Brand Kit</button>
+            </div>
+            {managerError && <div className="error-message">{managerError}</div>}
+            {kits.length === 0 && <p className="project-empty">No brand kits yet.</p>}
+            <ul className="project-list">
+                {kits.map(kit => (
+                    <li key={kit.id} className="project-item">
+                        <div className="project-thumb">
+                            {kit.logo && <img src={kit.logo} alt="" className="brand-kit-logo" />}
+                        </div>
+                        <div className="project-info">
+                            <p className="project-name">{kit.name}</p>
+                            <p className="project-meta">v{kit.version}, updated {new Date(kit.updatedAt).toLocaleDateString()}</p>
+                            {kit.palette.length > 0 && (
+                                <div className="item-colors">
+                                    {kit.palette.map((color, index) => <span key={index} className="item-swatch" style={{ backgroundColor: color }} title={color} />)}
+                                </div>
+                            )}
+                            <div className="project-item-actions">
+                                <button className="link-btn" onClick={() => startEditing(kit)}>Edit</button>
+                                <button className="link-btn" onClick={() => startEditing({ ...kit, id: createId(), name: `${kit.name} Copy`, version: 0, revisions: [] })}>Duplicate</button>
+                                <button
+                                    className="link-btn"
+                                    onClick={() => window.confirm(`Delete "${kit.name}"? This can't be undone.`) && run(() => onDelete(kit.id))}>
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+interface BrandKitSelectorProps {
+    kits: BrandKit[];
+    selectedIds: string[];
+    onToggle: (id: string) => void;
+    onManage: () => void;
+    // The manager, shown in place while open.
+    manager: React.ReactNode;
+}
+
+const BrandKitSelector: React.FC<BrandKitSelectorProps> = ({ kits, selectedIds, onToggle, onManage, manager }) => (
+    <div className="input-group">
+        <div className="presets-container">
+            <div className="casting-panel-header">
+                <p className="presets-title">Brand Kits</p>
+                <button className="link-btn" onClick={onManage}>Manage</button>
+            </div>
+            {kits.length === 0 ? (
+                <p className="region-hint">Save your brand's palette, banned settings, casting and tone rules once, and they're applied to every generation.</p>
+            ) : (
+                <div>
+                    {kits.map(kit => (
+                        <button key={kit.id} className={`preset-btn ${selectedIds.includes(kit.id) ? 'active' : ''}`} onClick={() => onToggle(kit.id)} title={`Version ${kit.version}`}>
+                            {kit.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+        {manager}
+    </div>
+);
+
+interface BatchStudioProps {
+    isActive: boolean;
+    modeSwitch: React.ReactNode;
+    talents: TalentProfile[];
+    presets: StylePreset[];
+    // Shared with single mode, like modeSwitch; null while closed.
+    presetManager: React.ReactNode;
+    onManagePresets: () => void;
+    fidelitySettings: FidelitySettings;
+    onFidelitySettingsChange: (settings: FidelitySettings) => void;
+    preprocessSettings: PreprocessSettings;
+    onPreprocessSettingsChange: (settings: PreprocessSettings) => void;
+    // The current project's brand kits, and the selector shared with single mode.
+    brandKits: BrandKit[];
+    brandKitSelector: React.ReactNode;
+}
+
+// Kept mounted while hidden so a running queue keeps going when switching back to single mode.
+const BatchStudio: React.FC<BatchStudioProps> = ({ isActive, modeSwitch, talents, presets, presetManager, onManagePresets, fidelitySettings, onFidelitySettingsChange, preprocessSettings, onPreprocessSettingsChange, brandKits, brandKitSelector }) => {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [inspirationPhoto, setInspirationPhoto] = useState<File | null>(null);
+    const [selectedPresets, setSelectedPresets] = useState<string[]>([]);
+    const [includeSuggested, setIncludeSuggested] = useState<boolean>(true);
+    const [customBrief, setCustomBrief] = useState<string>('');
+    const [shotType, setShotType] = useState<ShotType>('model');
+    const [talentId, setTalentId] = useState<string | null>(null);
+    const [variations, setVariations] = useState<number>(1);
+    const [concurrency, setConcurrency] = useState<number>(2);
+    const [jobs, setJobs] = useState<BatchJob[]>([]);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const configError = useConfigError();
+    const runRef = useRef<AbortController | null>(null);
+
+    const addItems = useCallback(async (selected: File[]) => {
+        const { files, errors } = await preprocessImages(selected, preprocessSettings, true);
+        setError(errors.length > 0 ? errors.join(' ') : null);
+        setItems(prev => [...prev, ...files.map(file => ({ id: createId(), file, category: null, analysis: null, isIdentifying: false }))]);
+    }, [preprocessSettings]);
+
+    const handleInspirationSelect = async (file: File) => {
+        setError(null);
+        try {
+            setInspirationPhoto((await preprocessImage(file, preprocessSettings, false)).file);
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    const updateItem = (id: string, patch: Partial<BatchItem>) =>
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+
+    const updateJob = (id: string, patch: Partial<BatchJob>) =>
+        setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+
+    const togglePreset = (id: string) =>
+        setSelectedPresets(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+    const startRun = (): AbortSignal => {
+        runRef.current = new AbortController();
+        return runRef.current.signal;
+    };
+
+    // Aborts the jobs in flight; jobs still waiting in the queue are marked cancelled right away.
+    const handleCancel = () => {
+        runRef.current?.abort();
+        setJobs(prev => prev.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job));
+    };
+
+    const runJob = async (job: BatchJob, signal: AbortSignal) => {
+        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: 'running', error: null, attempts: j.attempts + 1 } : j));
+        try {
+            const { image, fidelity, attempts } = await generateCheckedLookbook({
+                heroItem: job.heroItem,
+                inspirationPhoto: job.inspirationPhoto,
+                stylePrompt: job.stylePrompt,
+                shotType: job.shotType,
+                itemCategory: job.itemCategory,
+                itemAnalysis: job.itemAnalysis,
+                talent: job.talent,
+                brandKits,
+                usage: BATCH_USAGE_SCOPE,
+                signal,
+            }, fidelitySettings);
+            const model = await getImageModelName();
+            setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: 'done', image, fidelity, attempts: j.attempts + attempts - 1, model, completedAt: Date.now() } : j));
+        } catch (err) {
+            if (isCancelled(err)) {
+                updateJob(job.id, { status: 'cancelled' });
+                return;
+            }
+            console.error(err);
+            updateJob(job.id, { status: 'failed', error: getFailureSummary(err) });
+        }
+    };
+
+    const runJobs = async (queue: BatchJob[], signal: AbortSignal) => {
+        setIsRunning(true);
+        try {
+            await runWithConcurrency(queue.map(job => () => runJob(job, signal)), concurrency, signal);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleRunBatch = async () => {
+        if (configError) {
+            setError(configError);
+            return;
+        }
+        if (items.length === 0) return;
+        setError(null);
+        setIsRunning(true);
+        const signal = startRun();
+
+        try {
+            // Analysis is the first stage of the queue; results are cached on the item.
+            const analyses = new Map<string, ItemAnalysis>();
+            await runWithConcurrency(items.map(item => async () => {
+                if (item.category) {
+                    analyses.set(item.id, item.analysis ?? createBasicAnalysis(item.category));
+                    return;
+                }
+                updateItem(item.id, { isIdentifying: true });
+                try {
+                    const analysis = await analyzeItemOrFallback(item.file, signal, BATCH_USAGE_SCOPE);
+                    analyses.set(item.id, analysis);
+                    updateItem(item.id, { category: analysis.category, analysis, isIdentifying: false });
+                } catch (err) {
+                    // Only cancelling gets here; the item is identified on the next run.
+                    updateItem(item.id, { isIdentifying: false });
+                    if (!isCancelled(err)) throw err;
+                }
+            }), concurrency, signal);
+            if (signal.aborted) return;
+
+            const queue = buildBatchJobs(
+                items.map(item => {
+                    const analysis = analyses.get(item.id) ?? createBasicAnalysis('Other', 'failed');
+                    return { ...item, category: analysis.category, analysis };
+                }),
+                {
+                    presets: presets.filter(preset => selectedPresets.includes(preset.id)),
+                    customBriefs: customBrief.trim() ? [{ name: 'Custom Brief', fields: { notes: customBrief } }] : [],
+                    library: presets,
+                    includeSuggested,
+                    inspirationPhoto,
+                    shotType,
+                    talent: talents.find(talent => talent.id === talentId) ?? null,
+                    variations,
+                },
+            );
+            setJobs(prev => [...prev, ...queue]);
+            await runJobs(queue, signal);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleDownloadJob = async (job: BatchJob) => {
+        const filename = `lookbook-${toFileSlug(job.heroItem.name)}-${toFileSlug(job.brief.name)}-${job.variation}.png`;
+        try {
+            const provenance = buildProvenance({
+                stylePrompt: job.stylePrompt,
+                shotType: job.shotType,
+                itemCategory: job.itemCategory,
+                model: job.model ?? undefined,
+                heroItemSha256: await sha256Hex(job.heroItem).catch(() => null),
+                createdAt: job.completedAt ?? Date.now(),
+            });
+            const logoKit = getBrandLogo(brandKits);
+            const image = logoKit ? await applyBrandLogo(job.image!, logoKit) : await (await fetch(job.image!)).blob();
+            downloadBlob(await embedProvenance(image, provenance), filename);
+        } catch (err) {
+            // Fall back to the bare image rather than failing the download.
+            console.error("Could not embed image metadata:", err);
+            downloadDataUrl(job.image!, filename);
+        }
+    };
+
+    // Jobs are looked up by id in the current state, so the queue carries their latest attempts.
+    const handleRetry = async (ids: string[]) => {
+        const queue = jobs
+            .filter(job => ids.includes(job.id))
+            .map(job => ({ ...job, status: 'queued' as const, error: null }));
+        setJobs(prev => prev.map(job => ids.includes(job.id) ? { ...job, status: 'queued', error: null } : job));
+        await runJobs(queue, startRun());
+    };
+
+    if (!isActive) return null;
+
+    const hasProductShotItems = items.some(item => supportsProductShot(item.category));
+    const failedJobs = jobs.filter(job => job.status === 'failed');
+    const cancelledJobs = jobs.filter(job => job.status === 'cancelled');
+    const finishedCount = jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled').length;
+
+    return (
+        <>
+            <aside className={`controls-panel ${isRunning ? 'loading' : ''}`}>
+                <header className="header">
+                    <h1>The Alchemist's Studio</h1>
+                    <p>Generate lookbook photographs for a whole collection at once.</p>
+                    {modeSwitch}
+                </header>
+
+                <ImageUploader
+                    title="1. Hero Items"
+                    description="(Required) Select several pieces or drop a whole folder."
+                    onFilesSelect={addItems}
+                />
+                <PreprocessControls settings={preprocessSettings} onChange={onPreprocessSettingsChange} />
+
+                {items.length > 0 && (
+                    <div className="batch-items">
+                        {items.map(item => (
+                            <div key={item.id} className="batch-item">
+                                <FileThumbnail file={item.file} alt={item.file.name} />
+                                <div className="batch-item-info">
+                                    <span className="batch-item-name">{item.file.name}</span>
+                                    {item.category && !item.isIdentifying ? (
+                                        <CategorySelect value={item.category} onChange={(category) => updateItem(item.id, { category, analysis: withCategory(item.analysis, category) })} />
+                                    ) : (
+                                        <span className={`batch-item-category ${item.isIdentifying ? 'identifying-text' : ''}`}>
+                                            {item.isIdentifying ? 'Identifying...' : 'Identified when queued'}
+                                        </span>
+                                    )}
+                                </div>
+                                <button className="remove-btn" onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} aria-label="Remove item">
+                                    &times;
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <ImageUploader
+                    title="2. Batch Inspiration"
+                    description="(Optional) One image for style, mood, and lighting across the batch."
+                    selectedFile={inspirationPhoto}
+                    onFileSelect={handleInspirationSelect}
+                    onFileRemove={() => setInspirationPhoto(null)}
+                />
+
+                <div className="input-group">
+                    <label htmlFor="batch-brief">3. Creative Briefs</label>
+                    <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>(Optional) Every selected brief runs for every item.</span></p>
+
+                    <div className="presets-container">
+                        <div className="casting-panel-header">
+                            <p className="presets-title">Style Presets</p>
+                            <button className="link-btn" onClick={onManagePresets}>Manage</button>
+                        </div>
+                        <div>
+                            {presets.filter(preset => preset.kind === 'style').map(preset => (
+                                <button
+                                    key={preset.id}
+                                    className={`preset-btn ${selectedPresets.includes(preset.id) ? 'active' : ''}`}
+                                    onClick={() => togglePreset(preset.id)}
+                                    title={describePresetTargets(preset)}
+                                >
+                                    {preset.name}
+                                </button>
+                            ))}
+                            <button className={`preset-btn ${includeSuggested ? 'active' : ''}`} onClick={() => setIncludeSuggested(!includeSuggested)}>
+                                Suggested per Item
+                            </button>
+                        </div>
+                    </div>
+
+                    {presetManager}
+
+                    {talents.length > 0 && (
+                        <TalentPicker talents={talents} selectedTalentId={talentId} onSelect={setTalentId} />
+                    )}
+
+                    {hasProductShotItems && (
+                        <div className="presets-container">
+                            <p className="presets-title">Accessory, Hat & Shoe Shot Type</p>
+                            <div>
+                                <button className={`preset-btn ${shotType === 'model' ? 'active' : ''}`} onClick={() => setShotType('model')}>On-Model</button>
+                                <button className={`preset-btn ${shotType === 'product' ? 'active' : ''}`} onClick={() => setShotType('product')}>Product Shot</button>
+                            </div>
+                        </div>
+                    )}
+
+                    <textarea
+                        id="batch-brief"
+                        value={customBrief}
+                        onChange={(e) => setCustomBrief(e.target.value)}
+                        placeholder="Add your own brief to the batch, e.g. 'A model on a rooftop at golden hour'"
+                    />
+                </div>
+
+                {brandKitSelector}
+
+                <div className="input-group">
+                    <div className="presets-container">
+                        <p className="presets-title">Variations per Brief</p>
+                        <div>
+                            {[1, 2, 3, 4].map(n => (
+                                <button key={n} className={`preset-btn ${variations === n ? 'active' : ''}`} onClick={() => setVariations(n)}>{n}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="presets-container">
+                        <p className="presets-title">Parallel Jobs</p>
+                        <div>
+                            {[1, 2, 3].map(n => (
+                                <button key={n} className={`preset-btn ${concurrency === n ? 'active' : ''}`} onClick={() => setConcurrency(n)}>{n}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <FidelityControls settings={fidelitySettings} onChange={onFidelitySettingsChange} />
+                </div>
+
+                <button
+                    className="generate-btn"
+                    onClick={handleRunBatch}
+                    disabled={items.length === 0 || isRunning}
+                >
+                    {isRunning ? (
+                        <>
+                            <div className="btn-spinner"></div>
+                            <span>Running Batch...</span>
+                        </>
+                    ) : (
+                        <span>Run Batch ({items.length} {items.length === 1 ? 'item' : 'items'})</span>
+                    )}
+                </button>
+                {isRunning && (
+                    <button className="cancel-btn" onClick={handleCancel}>Cancel</button>
+                )}
+            </aside>
+            <main className="output-panel batch-output">
+                {isRunning && (
+                    <div className="progress-bar">
+                        <div className="progress-bar-inner"></div>
+                    </div>
+                )}
+                {jobs.length > 0 ? (
+                    <>
+                        <div className="batch-summary">
+                            <span>
+                                {finishedCount} of {jobs.length} jobs finished
+                                {failedJobs.length > 0 && `, ${failedJobs.length} failed`}
+                                {cancelledJobs.length > 0 && `, ${cancelledJobs.length} cancelled`}
+                            </span>
+                            <div className="batch-summary-actions">
+                                {failedJobs.length + cancelledJobs.length > 0 && (
+                                    <button className="start-over-btn" onClick={() => handleRetry([...failedJobs, ...cancelledJobs].map(job => job.id))} disabled={isRunning}>
+                                        {cancelledJobs.length > 0 ? 'Retry Unfinished' : 'Retry Failed'}
+                                    </button>
+                                )}
+                                <button className="start-over-btn" onClick={() => setJobs([])} disabled={isRunning}>Clear Results</button>
+                            </div>
+                        </div>
+                        <div className="batch-grid">
+                            {jobs.map(job => (
+                                <div key={job.id} className={`batch-job ${job.status} ${job.fidelity?.passed === false ? 'flagged' : ''}`}>
+                                    <div className="batch-job-image">
+                                        {job.image ? (
+                                            <img src={job.image} alt={`${job.heroItem.name} - ${job.brief.name}`} />
+                                        ) : job.status === 'running' ? (
+                                            <div className="btn-spinner"></div>
+                                        ) : (
+                                            <span>{job.status === 'failed' ? 'Failed' : job.status === 'cancelled' ? 'Cancelled' : 'Queued'}</span>
+                                        )}
+                                    </div>
+                                    <div className="batch-job-info">
+                                        <span className="batch-item-name">{job.heroItem.name}</span>
+                                        <span>{job.brief.name} #{job.variation}{job.attempts > 1 && ` (attempt ${job.attempts})`}</span>
+                                        {job.error && <span className="batch-job-error">{job.error}</span>}
+                                        {job.fidelity && <FidelityBadge report={job.fidelity} />}
+                                    </div>
+                                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                                        <button className="download-btn" onClick={() => handleRetry([job.id])} disabled={isRunning}>Retry</button>
+                                    )}
+                                    {job.image && (
+                                        <button
+                                            className="download-btn"
+                                            onClick={() => handleDownloadJob(job)}
+                                        >
+                                            Download
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                ) : error || configError ? (
+                    <div className="error-message">
+                        <h2>Alchemy Failed</h2>
+                        <p>{error ?? configError}</p>
+                    </div>
+                ) : (
+                    <div className="placeholder">
+                        <h2>Your Collection Awaits</h2>
+                        <p>Add hero items, pick your briefs, and run the batch.</p>
+                    </div>
+                )}
+            </main>
+        </>
+    );
+};
+
+
+type SetShotStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface SetShotResult {
+    shot: SetShotDefinition;
+    status: SetShotStatus;
+    image: string | null;
+    fidelity: FidelityReport | null;
+    attempts: number;
+    error: string | null;
+    // Provenance of the finished image.
+    stylePrompt: string;
+    model: string | null;
+    completedAt: number | null;
+}
+
+interface ShotListStudioProps {
+    isActive: boolean;
+    modeSwitch: React.ReactNode;
+    talents: TalentProfile[];
+    presets: StylePreset[];
+    // Shared with the other modes, like modeSwitch; null while closed.
+    presetManager: React.ReactNode;
+    onManagePresets: () => void;
+    fidelitySettings: FidelitySettings;
+    onFidelitySettingsChange: (settings: FidelitySettings) => void;
+    preprocessSettings: PreprocessSettings;
+    onPreprocessSettingsChange: (settings: PreprocessSettings) => void;
+    // The current project's brand kits, and the selector shared with single mode.
+    brandKits: BrandKit[];
+    brandKitSelector: React.ReactNode;
+}
+
+// Kept mounted while hidden, like BatchStudio, so a set keeps generating when switching modes.
+const ShotListStudio: React.FC<ShotListStudioProps> = ({ isActive, modeSwitch, talents, presets, presetManager, onManagePresets, fidelitySettings, onFidelitySettingsChange, preprocessSettings, onPreprocessSettingsChange, brandKits, brandKitSelector }) => {
+    const [heroItem, setHeroItem] = useState<File | null>(null);
+    const [itemAnalysis, setItemAnalysis] = useState<ItemAnalysis | null>(null);
+    const [isIdentifying, setIsIdentifying] = useState<boolean>(false);
+    const [backReference, setBackReference] = useState<File | null>(null);
+    const [detailReference, setDetailReference] = useState<File | null>(null);
+    const [inspirationPhoto, setInspirationPhoto] = useState<File | null>(null);
+    const [brief, setBrief] = useState<CreativeBrief>({});
+    const [promptOverride, setPromptOverride] = useState<string | null>(null);
+    const [talentId, setTalentId] = useState<string | null>(null);
+    // One frame for the whole set, so the shots sit evenly on a product page.
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio | null>('4:5');
+    const [selectedShots, setSelectedShots] = useState<SetShotId[]>(SET_SHOTS.map(shot => shot.id));
+    const [shots, setShots] = useState<SetShotResult[]>([]);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const configError = useConfigError();
+    const runRef = useRef<AbortController | null>(null);
+    // Read synchronously, so a quick double click can't start the same shot twice.
+    const runningShotsRef = useRef(new Set<SetShotId>());
+
+    const stylePrompt = promptOverride ?? composeBrief(brief, 'model');
+    const talent = talents.find(t => t.id === talentId) ?? null;
+
+    // Each upload is prepared like single-mode uploads; only the hero item is analyzed.
+    const prepareUpload = (isHeroItem: boolean, onPrepared: (file: File) => void) => async (file: File) => {
+        setError(null);
+        try {
+            const prepared = (await preprocessImage(file, preprocessSettings, true)).file;
+            onPrepared(prepared);
+            if (!isHeroItem) return;
+            setItemAnalysis(null);
+            setIsIdentifying(true);
+            setItemAnalysis(await analyzeItemOrFallback(prepared, undefined, SHOT_LIST_USAGE_SCOPE));
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        } finally {
+            if (isHeroItem) setIsIdentifying(false);
+        }
+    };
+
+    const handleInspirationSelect = async (file: File) => {
+        setError(null);
+        try {
+            setInspirationPhoto((await preprocessImage(file, preprocessSettings, false)).file);
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    const toggleShot = (id: SetShotId) =>
+        setSelectedShots(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+    const updateShot = (id: SetShotId, patch: Partial<SetShotResult>) =>
+        setShots(prev => prev.map(result => result.shot.id === id ? { ...result, ...patch } : result));
+
+    // Set runs and single-shot regenerations share one controller, so Cancel stops everything in flight.
+    const getRunSignal = (): AbortSignal => {
+        if (!runRef.current || runRef.current.signal.aborted) runRef.current = new AbortController();
+        return runRef.current.signal;
+    };
+
+    const handleCancel = () => {
+        runRef.current?.abort();
+        setShots(prev => prev.map(result => result.status === 'queued' ? { ...result, status: 'cancelled' } : result));
+    };
+
+    const runShot = async (shot: SetShotDefinition, continuityImage: string | null, signal: AbortSignal): Promise<string | null> => {
+        if (!heroItem || runningShotsRef.current.has(shot.id)) return null;
+        runningShotsRef.current.add(shot.id);
+        updateShot(shot.id, { status: 'running', error: null, stylePrompt });
+        try {
+            const references: ItemReference[] = [];
+            if (backReference) references.push({ label: 'Back View', file: backReference });
+            if (detailReference) references.push({ label: 'Detail', file: detailReference });
+            const { image, fidelity, attempts } = await generateCheckedLookbook({
+                heroItem,
+                inspirationPhoto,
+                stylePrompt,
+                shotType: shot.shotType,
+                itemCategory: itemAnalysis?.category ?? null,
+                itemAnalysis,
+                talent: shot.shotType === 'model' ? talent : null,
+                aspectRatio,
+                setShot: { shot, continuityImage, references },
+                brandKits,
+                usage: SHOT_LIST_USAGE_SCOPE,
+                signal,
+            }, shot.isCloseUp ? { ...fidelitySettings, autoRetry: false } : fidelitySettings);
+            const model = await getImageModelName();
+            updateShot(shot.id, { status: 'done', image, fidelity, attempts, model, completedAt: Date.now() });
+            return image;
+        } catch (err) {
+            if (isCancelled(err)) {
+                updateShot(shot.id, { status: 'cancelled' });
+                return null;
+            }
+            console.error(err);
+            updateShot(shot.id, { status: 'failed', error: getFailureSummary(err) });
+            return null;
+        } finally {
+            runningShotsRef.current.delete(shot.id);
+        }
+    };
+
+    const handleGenerateSet = async () => {
+        if (configError) {
+            setError(configError);
+            return;
+        }
+        if (!heroItem) return;
+        const planned = SET_SHOTS.filter(shot => selectedShots.includes(shot.id));
+        if (planned.length === 0) return;
+        setError(null);
+        setIsRunning(true);
+        const signal = getRunSignal();
+        setShots(planned.map(shot => ({ shot, status: 'queued', image: null, fidelity: null, attempts: 0, error: null, stylePrompt, model: null, completedAt: null })));
+
+        try {
+            // The first model shot sets the scene; the rest are matched to it.
+            const anchor = planned.find(shot => shot.shotType === 'model');
+            const continuityImage = anchor ? await runShot(anchor, null, signal) : null;
+            await runWithConcurrency(planned.filter(shot => shot !== anchor).map(shot => async () => {
+                await runShot(shot, continuityImage, signal);
+            }), 2, signal);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    // Matched to another finished model shot, so a regenerated shot still fits the set.
+    const handleRegenerate = (result: SetShotResult) => {
+        const continuity = shots.find(other => other.shot.id !== result.shot.id && other.shot.shotType === 'model' && other.image);
+        runShot(result.shot, continuity?.image ?? null, getRunSignal());
+    };
+
+    const getShotFile = async (result: SetShotResult): Promise<{ filename: string; blob: Blob }> => {
+        const filename = `lookbook-${toFileSlug(heroItem?.name ?? 'set')}-${result.shot.id}.png`;
+        try {
+            const logoKit = getBrandLogo(brandKits);
+            const image = logoKit ? await applyBrandLogo(result.image!, logoKit) : await (await fetch(result.image!)).blob();
+            const provenance = buildProvenance({
+                stylePrompt: result.stylePrompt,
+                shotType: result.shot.shotType,
+                itemCategory: itemAnalysis?.category ?? null,
+                model: result.model ?? undefined,
+                heroItemSha256: heroItem ? await sha256Hex(heroItem).catch(() => null) : null,
+                createdAt: result.completedAt ?? Date.now(),
+            });
+            return { filename, blob: await embedProvenance(image, provenance) };
+        } catch (err) {
+            // Fall back to the bare image rather than failing the download.
+            console.error("Could not embed image metadata:", err);
+            const { bytes, mimeType } = dataUrlToBytes(result.image!);
+            return { filename, blob: new Blob([bytes], { type: mimeType }) };
+        }
+    };
+
+    const handleDownloadShot = async (result: SetShotResult) => {
+        const { filename, blob } = await getShotFile(result);
+        downloadBlob(blob, filename);
+    };
+
+    const handleExportSet = async () => {
+        setError(null);
+        try {
+            const entries: ZipEntry[] = [];
+            for (const result of shots.filter(result => result.image)) {
+                const { filename, blob } = await getShotFile(result);
+                entries.push({ path: filename, data: new Uint8Array(await blob.arrayBuffer()) });
+            }
+            downloadBlob(createZip(entries), `lookbook-${toFileSlug(heroItem?.name ?? 'set')}-shot-set.zip`);
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    if (!isActive) return null;
+
+    const stylePresets = getStylePresets(presets, [itemAnalysis], 'model');
+    const finishedShots = shots.filter(result => result.image);
+    const isShotRunning = shots.some(result => result.status === 'running');
+
+    return (
+        <>
+            <aside className={`controls-panel ${isRunning ? 'loading' : ''}`}>
+                <header className="header">
+                    <h1>The Alchemist's Studio</h1>
+                    <p>Generate a coordinated set of angles of one item for a product page.</p>
+                    {modeSwitch}
+                </header>
+
+                <ImageUploader
+                    title="1. Hero Item"
+                    description="(Required) The piece of clothing to feature."
+                    selectedFile={heroItem}
+                    onFileSelect={prepareUpload(true, setHeroItem)}
+                    onFileRemove={() => {
+                        setHeroItem(null);
+                        setItemAnalysis(null);
+                    }}
+                />
+                {isIdentifying && <p className="identifying-text">Identifying item...</p>}
+                {heroItem && itemAnalysis && <ItemAnalysisPanel analysis={itemAnalysis} onChange={setItemAnalysis} />}
+                <ImageUploader
+                    title="Back View"
+                    description="(Optional) A photo of the back of the item, for the back view."
+                    selectedFile={backReference}
+                    onFileSelect={prepareUpload(false, setBackReference)}
+                    onFileRemove={() => setBackReference(null)}
+                />
+                <ImageUploader
+                    title="Detail"
+                    description="(Optional) A close photo of the fabric or hardware, for the detail shot."
+                    selectedFile={detailReference}
+                    onFileSelect={prepareUpload(false, setDetailReference)}
+                    onFileRemove={() => setDetailReference(null)}
+                />
+                <PreprocessControls settings={preprocessSettings} onChange={onPreprocessSettingsChange} />
+
+                <ImageUploader
+                    title="2. Visual Inspiration"
+                    description="(Optional) An image for style, mood, and lighting across the set."
+                    selectedFile={inspirationPhoto}
+                    onFileSelect={handleInspirationSelect}
+                    onFileRemove={() => setInspirationPhoto(null)}
+                    onReuseBrief={setPromptOverride}
+                />
+
+                <div className="input-group">
+                    <label>3. Shot List</label>
+                    <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>Every shot shares the same model, scene, and lighting.</span></p>
+
+                    <div className="presets-container">
+                        <p className="presets-title">Shots</p>
+                        <div>
+                            {SET_SHOTS.map(shot => (
+                                <button key={shot.id} className={`preset-btn ${selectedShots.includes(shot.id) ? 'active' : ''}`} onClick={() => toggleShot(shot.id)} title={shot.direction}>
+                                    {shot.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="presets-container">
+                        <p className="presets-title">Aspect Ratio</p>
+                        <div>
+                            <button className={`preset-btn ${aspectRatio === null ? 'active' : ''}`} onClick={() => setAspectRatio(null)}>Auto</button>
+                            {ASPECT_RATIOS.map(ratio => (
+                                <button key={ratio} className={`preset-btn ${aspectRatio === ratio ? 'active' : ''}`} onClick={() => setAspectRatio(ratio)}>{ratio}</button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {talents.length > 0 && (
+                        <TalentPicker talents={talents} selectedTalentId={talentId} onSelect={setTalentId} />
+                    )}
+
+                    <div className="presets-container">
+                        <div className="casting-panel-header">
+                            <p className="presets-title">Style Presets</p>
+                            <button className="link-btn" onClick={onManagePresets}>Manage</button>
+                        </div>
+                        <div>
+                            {stylePresets.map(preset => (
+                                <button
+                                    key={preset.id}
+                                    className="preset-btn"
+                                    onClick={() => {
+                                        setBrief(prev => ({ ...prev, ...preset.fields }));
+                                        setPromptOverride(null);
+                                    }}
+                                    title={preset.tags.join(', ') || undefined}
+                                >
+                                    {preset.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {presetManager}
+
+                    <BriefBuilder
+                        brief={brief}
+                        shotType="model"
+                        onFieldChange={(field, value) => setBrief(prev => ({ ...prev, [field]: value }))}
+                        onClear={() => {
+                            setBrief({});
+                            setPromptOverride(null);
+                        }}
+                        prompt={stylePrompt}
+                        isPromptEdited={promptOverride !== null}
+                        onPromptEdit={setPromptOverride}
+                        onPromptReset={() => setPromptOverride(null)}
+                    />
+                </div>
+
+                {brandKitSelector}
+
+                <div className="input-group">
+                    <FidelityControls settings={fidelitySettings} onChange={onFidelitySettingsChange} />
+                </div>
 
                 <button
                     className="generate-btn"
-                    onClick={handleGenerate}
-                    disabled={!heroItem || isLoading}
+                    onClick={handleGenerateSet}
+                    disabled={!heroItem || selectedShots.length === 0 || isRunning || isShotRunning}
                 >
-                    {isLoading ? (
+                    {isRunning ? (
                         <>
                             <div className="btn-spinner"></div>
-                            <span>{loadingButtonText}</span>
+                            <span>Generating Set...</span>
                         </>
                     ) : (
-                        <span>{buttonText}</span>
+                        <span>Generate Set ({selectedShots.length} {selectedShots.length === 1 ? 'shot' : 'shots'})</span>
                     )}
                 </button>
+                {(isRunning || isShotRunning) && (
+                    <button className="cancel-btn" onClick={handleCancel}>Cancel</button>
+                )}
             </aside>
-            <main className="output-panel">
-                 {isLoading && (
+            <main className="output-panel batch-output">
+                {(isRunning || isShotRunning) && (
                     <div className="progress-bar">
                         <div className="progress-bar-inner"></div>
                     </div>
                 )}
-                <div className={`output-wrapper ${isLoading ? 'is-loading' : ''}`}>
-                    {generatedImage ? (
-                         <>
-                            <img src={generatedImage} alt="Generated lookbook" className="output-image" />
-                            <div className="output-actions">
-                                <button onClick={handleStartOver} className="start-over-btn" disabled={isLoading}>Start Over</button>
-                                <div className="download-container">
-                                    <button className="download-btn" onClick={() => !isLoading && setDownloadMenuOpen(!isDownloadMenuOpen)} disabled={isLoading}>
-                                        Download
-                                    </button>
-                                    {isDownloadMenuOpen && (
-                                        <div className="download-menu">
-                                            <button onClick={() => handleDownload('1:1')}>Square (1:1)</button>
-                                            <button onClick={() => handleDownload('9:16')}>Portrait (9:16)</button>
-                                            <button onClick={() => handleDownload('16:9')}>Landscape (16:9)</button>
-                                        </div>
+                {shots.length > 0 ? (
+                    <>
+                        <div className="batch-summary">
+                            <span>{finishedShots.length} of {shots.length} shots ready</span>
+                            <div className="batch-summary-actions">
+                                <button className="download-btn" onClick={handleExportSet} disabled={finishedShots.length === 0 || isRunning}>Export Set</button>
+                                <button className="start-over-btn" onClick={() => setShots([])} disabled={isRunning || isShotRunning}>Clear Set</button>
+                            </div>
+                        </div>
+                        {error && <p className="batch-job-error">{error}</p>}
+                        <div className="batch-grid">
+                            {shots.map(result => (
+                                <div key={result.shot.id} className={`batch-job ${result.status} ${result.fidelity?.passed === false ? 'flagged' : ''}`}>
+                                    <div className="batch-job-image">
+                                        {result.status === 'running' ? (
+                                            <div className="btn-spinner"></div>
+                                        ) : result.image ? (
+                                            <img src={result.image} alt={`${result.shot.label} shot`} />
+                                        ) : (
+                                            <span>{result.status === 'failed' ? 'Failed' : result.status === 'cancelled' ? 'Cancelled' : 'Queued'}</span>
+                                        )}
+                                    </div>
+                                    <div className="batch-job-info">
+                                        <span className="batch-item-name">{result.shot.label}</span>
+                                        {result.attempts > 1 && <span>Attempt {result.attempts}</span>}
+                                        {result.error && <span className="batch-job-error">{result.error}</span>}
+                                        {result.fidelity && <FidelityBadge report={result.fidelity} />}
+                                    </div>
+                                    {(result.status === 'done' || result.status === 'failed' || result.status === 'cancelled') && (
+                                        <button className="start-over-btn" onClick={() => handleRegenerate(result)} disabled={isRunning}>Regenerate</button>
+                                    )}
+                                    {result.image && result.status === 'done' && (
+                                        <button className="download-btn" onClick={() => handleDownloadShot(result)}>Download</button>
                                     )}
                                 </div>
-                            </div>
-                        </>
-                    ) : error ? (
-                        <div className="error-message">
-                           <h2>Alchemy Failed</h2>
-                           <p>{error}</p>
-                       </div>
-                   ) : (
-                        <div className="placeholder">
-                           <h2>Your Masterpiece Awaits</h2>
-                           <p>Upload your assets and let the alchemy begin.</p>
-                       </div>
-                   )}
-                </div>
+                            ))}
+                        </div>
+                    </>
+                ) : error || configError ? (
+                    <div className="error-message">
+                        <h2>Alchemy Failed</h2>
+                        <p>{error ?? configError}</p>
+                    </div>
+                ) : (
+                    <div className="placeholder">
+                        <h2>Your Product Page Awaits</h2>
+                        <p>Add a hero item, pick your shots, and generate the set.</p>
+                    </div>
+                )}
             </main>
+        </>
+    );
+};
+
+
+const App: React.FC = () => {
+    const [heroItem, setHeroItem] = useState<File | null>(null);
+    const [heroItemSource, setHeroItemSource] = useState<File | null>(null);
+    const [heroItemSteps, setHeroItemSteps] = useState<string[]>([]);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(loadPreprocessSettings);
+    const [inspirationPhoto, setInspirationPhoto] = useState<File | null>(null);
+    const [brief, setBrief] = useState<CreativeBrief>({});
+    const [promptOverride, setPromptOverride] = useState<string | null>(null);
+    const [history, setHistory] = useState<HistoryNode[]>([]);
+    const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+    const [compareNodeIds, setCompareNodeIds] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setErrorMessage] = useState<string | null>(null);
+    const [failure, setFailure] = useState<ModelError | null>(null);
+    const [itemAnalysis, setItemAnalysis] = useState<ItemAnalysis | null>(null);
+    const [isIdentifying, setIsIdentifying] = useState<boolean>(false);
+    const [isExportOpen, setExportOpen] = useState(false);
+    const [isExtendOpen, setExtendOpen] = useState(false);
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio | null>(null);
+    const [shotType, setShotType] = useState<ShotType>('model');
+    const [mode, setMode] = useState<StudioMode>('single');
+    const [outfitItems, setOutfitItems] = useState<OutfitItem[]>([]);
+    const [talents, setTalents] = useState<TalentProfile[]>([]);
+    const [selectedTalentId, setSelectedTalentId] = useState<string | null>(null);
+    const [isCastingOpen, setCastingOpen] = useState(false);
+    const [isRegionEditOpen, setRegionEditOpen] = useState(false);
+    const [fidelitySettings, setFidelitySettings] = useState<FidelitySettings>(loadFidelitySettings);
+    const [projectMeta, setProjectMeta] = useState<Pick<Project, 'id' | 'name' | 'createdAt'>>(createEmptyProject);
+    const [isLibraryOpen, setLibraryOpen] = useState(false);
+    // Shown until the stored library loads, so presets work even if IndexedDB is unavailable.
+    const [presets, setPresets] = useState<StylePreset[]>(DEFAULT_PRESETS);
+    const [isPresetManagerOpen, setPresetManagerOpen] = useState(false);
+    const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+    const [brandKitIds, setBrandKitIds] = useState<string[]>([]);
+    const [isBrandKitManagerOpen, setBrandKitManagerOpen] = useState(false);
+    const [isUsageOpen, setUsageOpen] = useState(false);
+    const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>(loadBudgetSettings);
+    const [usageUser, setUsageUser] = useState<string>(loadUsageUser);
+    const [isHydrated, setIsHydrated] = useState(false);
+    // Set when the hero item file changes but the item doesn't (restoring a project, reprocessing
+    // the same upload), so it isn't re-analyzed.
+    const skipAnalysisRef = useRef(false);
+    // Whether the current project exists in storage; empty new projects aren't saved until used.
+    const isStoredRef = useRef(false);
+    // The model request in flight, so Cancel can abort it; hero analysis is tracked separately.
+    const requestRef = useRef<AbortController | null>(null);
+    const analysisRef = useRef<AbortController | null>(null);
+    const configError = useConfigError();
+    const usageLog = useUsageRecords();
+
+    const activeNode = history.find(node => node.id === activeNodeId) ?? null;
+    const compareNodes = compareNodeIds.map(id => history.find(node => node.id === id)).filter((node): node is HistoryNode => !!node);
+    const generatedImage = activeNode?.image ?? null;
+    const stylePrompt = promptOverride ?? composeBrief(brief, shotType);
+    const selectedTalent = talents.find(talent => talent.id === selectedTalentId) ?? null;
+    const itemCategory = itemAnalysis?.category ?? null;
+    const activeBrandKits = brandKits.filter(kit => brandKitIds.includes(kit.id));
+    const usageScope: UsageScope = { source: 'single', projectId: projectMeta.id, projectName: projectMeta.name };
+
+    // Plain messages clear any typed failure; reportError records both.
+    const setError = (message: string | null) => {
+        setErrorMessage(message);
+        setFailure(null);
+    };
+
+    // Cancelling isn't a failure, so it leaves no error behind.
+    const reportError = (err: unknown) => {
+        if (isCancelled(err)) return;
+        console.error(err);
+        setErrorMessage(err instanceof Error ? err.message : "An unknown error occurred.");
+        setFailure(err instanceof ModelError ? err : null);
+    };
+
+    const startRequest = (): AbortSignal => {
+        requestRef.current = new AbortController();
+        return requestRef.current.signal;
+    };
+
+    const identifyHeroItem = async (file: File) => {
+        if (configError) {
+            setError(configError);
+            return;
+        }
+        // A newer upload supersedes any analysis still running.
+        analysisRef.current?.abort();
+        const controller = new AbortController();
+        analysisRef.current = controller;
+        setIsIdentifying(true);
+        setItemAnalysis(null);
+        setShotType('model'); // Reset shot type on new item
+        try {
+            setItemAnalysis(await analyzeItemOrFallback(file, controller.signal, usageScope));
+        } catch {
+            // Only cancellation gets here; the newer analysis sets the result.
+        } finally {
+            if (analysisRef.current === controller) setIsIdentifying(false);
+        }
+    };
+
+    // Analyze the Hero Item when it is uploaded
+    useEffect(() => {
+        if (skipAnalysisRef.current) {
+            skipAnalysisRef.current = false;
+            return;
+        }
+        if (heroItem) {
+            identifyHeroItem(heroItem);
+        } else {
+            analysisRef.current?.abort();
+            setItemAnalysis(null);
+        }
+    }, [heroItem]);
+
+    const getProjectSnapshot = (): Project => ({
+        ...projectMeta,
+        updatedAt: Date.now(),
+        heroItem,
+        heroItemSource,
+        itemCategory,
+        itemAnalysis,
+        inspirationPhoto,
+        outfitItems,
+        brief,
+        promptOverride,
+        shotType,
+        history,
+        activeNodeId,
+        talents,
+        selectedTalentId,
+        aspectRatio,
+        brandKitIds,
+    });
+
+    const applyProject = (project: Project, isStored: boolean) => {
+        skipAnalysisRef.current = project.heroItem !== null;
+        isStoredRef.current = isStored;
+        setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt });
+        setHeroItem(project.heroItem);
+        setHeroItemSource(project.heroItemSource ?? null);
+        setHeroItemSteps([]);
+        setItemAnalysis(project.itemAnalysis ?? (project.itemCategory ? createBasicAnalysis(project.itemCategory, 'analyzed') : null));
+        setInspirationPhoto(project.inspirationPhoto);
+        setOutfitItems(project.outfitItems.map(item => ({
+            ...item,
+            category: item.category ?? 'Other',
+            analysis: item.analysis ?? createBasicAnalysis(item.category ?? 'Other', 'analyzed'),
+            isIdentifying: false,
+        })));
+        setBrief(project.brief);
+        setPromptOverride(project.promptOverride);
+        setShotType(project.shotType);
+        setHistory(project.history);
+        setActiveNodeId(project.activeNodeId);
+        setCompareNodeIds([]);
+        setTalents(project.talents);
+        setSelectedTalentId(project.selectedTalentId);
+        setAspectRatio(project.aspectRatio ?? null);
+        setBrandKitIds(project.brandKitIds ?? []);
+        setCastingOpen(false);
+        setRegionEditOpen(false);
+        setExportOpen(false);
+        setExtendOpen(false);
+        setError(null);
+        if (isStored) localStorage.setItem(LAST_PROJECT_KEY, project.id);
+    };
+
+    useEffect(() => {
+        localStorage.setItem(FIDELITY_SETTINGS_KEY, JSON.stringify(fidelitySettings));
+    }, [fidelitySettings]);
+
+    useEffect(() => {
+        localStorage.setItem(PREPROCESS_SETTINGS_KEY, JSON.stringify(preprocessSettings));
+    }, [preprocessSettings]);
+
+    useEffect(() => {
+        localStorage.setItem(BUDGET_SETTINGS_KEY, JSON.stringify(budgetSettings));
+    }, [budgetSettings]);
+
+    useEffect(() => {
+        localStorage.setItem(USAGE_USER_KEY, usageUser.trim());
+    }, [usageUser]);
+
+    useEffect(() => {
+        listPresets()
+            .then(setPresets)
+            .catch(err => console.error("Error loading presets:", err));
+        listBrandKits()
+            .then(setBrandKits)
+            .catch(err => console.error("Error loading brand kits:", err));
+    }, []);
+
+    // Reopen the last project after a refresh.
+    useEffect(() => {
+        const lastProjectId = localStorage.getItem(LAST_PROJECT_KEY);
+        (lastProjectId ? loadProject(lastProjectId) : Promise.resolve(undefined))
+            .then(project => project && applyProject(project, true))
+            .catch(err => console.error("Error restoring the last project:", err))
+            .finally(() => setIsHydrated(true));
+    }, []);
+
+    const saveCurrentProject = async (overrides: Partial<Project> = {}) => {
+        await saveProject({ ...getProjectSnapshot(), ...overrides });
+        isStoredRef.current = true;
+        localStorage.setItem(LAST_PROJECT_KEY, projectMeta.id);
+    };
+
+    // Autosave, debounced so typing in the brief doesn't rewrite every image on each keystroke.
+    useEffect(() => {
+        if (!isHydrated || (!isStoredRef.current && !heroItem && history.length === 0)) return;
+        const timer = setTimeout(() => {
+            saveCurrentProject().catch(err => {
+                console.error("Error saving project:", err);
+                setError("Your project couldn't be saved in this browser. Export it to keep a copy.");
+            });
+        }, PROJECT_AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [isHydrated, projectMeta, heroItem, heroItemSource, itemAnalysis, inspirationPhoto, outfitItems, brief, promptOverride, shotType, history, activeNodeId, talents, selectedTalentId, aspectRatio, brandKitIds]);
+
+    // Flush pending edits before leaving the current project.
+    const leaveCurrentProject = async () => {
+        if (isStoredRef.current || heroItem || history.length > 0) await saveCurrentProject();
+    };
+
+    const handleNewProject = async () => {
+        await leaveCurrentProject();
+        applyProject(createEmptyProject(), false);
+        setLibraryOpen(false);
+    };
+
+    const handleOpenProject = async (id: string) => {
+        const project = await loadProject(id);
+        if (!project) throw new Error("This project no longer exists.");
+        await leaveCurrentProject();
+        applyProject(project, true);
+        setLibraryOpen(false);
+    };
+
+    const handleImportProject = async (archive: File) => {
+        const project = await importProjectArchive(archive);
+        await saveProject(project);
+        await leaveCurrentProject();
+        applyProject(project, true);
+        setLibraryOpen(false);
+    };
+
+    const handleExportProject = async (id: string) => {
+        const project = id === projectMeta.id ? getProjectSnapshot() : await loadProject(id);
+        if (!project) throw new Error("This project no longer exists.");
+        downloadBlob(await exportProjectArchive(project), `${toFileSlug(project.name) || 'project'}.zip`);
+    };
+
+    const handleRenameProject = async (id: string, name: string) => {
+        if (id === projectMeta.id) {
+            setProjectMeta(prev => ({ ...prev, name }));
+            await saveCurrentProject({ name });
+            return;
+        }
+        const project = await loadProject(id);
+        if (project) await saveProject({ ...project, name, updatedAt: Date.now() });
+    };
+
+    const handleDeleteProject = async (id: string) => {
+        await deleteProject(id);
+        if (id === projectMeta.id) {
+            applyProject(createEmptyProject(), false);
+            localStorage.removeItem(LAST_PROJECT_KEY);
+        }
+    };
+
+
+    // crypto.subtle needs a secure context; without it versions are saved without the hash.
+    const getProvenanceFields = async (file: File) => ({
+        model: await getImageModelName(),
+        heroItemSha256: await sha256Hex(file).catch(err => {
+            console.error("Could not hash the hero item:", err);
+            return null;
+        }),
+    });
+
+    const handleGenerate = async () => {
+        if (configError) {
+            setError(configError);
+            setIsLoading(false);
+            return;
+        }
+        if (!heroItem) return;
+
+        setIsLoading(true);
+        setError(null);
+        const signal = startRequest();
+
+        try {
+            const { image: imageUrl, fidelity, attempts } = await generateCheckedLookbook({
+                heroItem,
+                inspirationPhoto,
+                stylePrompt,
+                shotType,
+                itemCategory,
+                itemAnalysis,
+                baseImage: generatedImage,
+                talent: selectedTalent,
+                outfitItems,
+                aspectRatio,
+                brandKits: activeBrandKits,
+                usage: usageScope,
+                signal,
+            }, fidelitySettings);
+            // Every generation becomes a new node; refinements branch from whichever version is active.
+            const node: HistoryNode = {
+                id: createId(),
+                parentId: activeNode?.id ?? null,
+                image: imageUrl,
+                brief,
+                stylePrompt,
+                inspirationPhoto,
+                shotType,
+                itemCategory,
+                talentId: selectedTalent?.id ?? null,
+                createdAt: Date.now(),
+                ...await getProvenanceFields(heroItem),
+                fidelity,
+                attempts,
+                // Refinements keep the frame of the version they edit.
+                aspectRatio: activeNode ? activeNode.aspectRatio : aspectRatio,
+            };
+            setHistory(prev => [...prev, node]);
+            setActiveNodeId(node.id);
+            setCompareNodeIds([]);
+        } catch (err) {
+            reportError(err);
+        } finally {
+            requestRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    const handleOpenRegionEdit = () => {
+        setRegionEditOpen(true);
+        setCompareNodeIds([]);
+        setCastingOpen(false);
+        setExportOpen(false);
+        setExtendOpen(false);
+        setError(null);
+    };
+
+    const handleOpenExport = () => {
+        setExportOpen(true);
+        setCastingOpen(false);
+        setExtendOpen(false);
+    };
+
+    const handleOpenExtend = () => {
+        setExtendOpen(!isExtendOpen);
+        setCastingOpen(false);
+        setError(null);
+    };
+
+    const handleRegionalEdit = async (mask: string, instruction: string) => {
+        if (configError) {
+            setError(configError);
+            return;
+        }
+        if (!heroItem || !activeNode) return;
+
+        setIsLoading(true);
+        setError(null);
+        const signal = startRequest();
+
+        try {
+            const talent = talents.find(t => t.id === activeNode.talentId) ?? null;
+            const imageUrl = await generateRegionalEdit({ heroItem, baseImage: activeNode.image, mask, instruction, talent, itemAnalysis, brandKits: activeBrandKits, usage: usageScope, signal });
+            // The hero item only changes if it was masked, so a failing check here is never retried.
+            const fidelity = fidelitySettings.enabled
+                ? await checkHeroFidelity(heroItem, imageUrl, activeNode.itemCategory, itemAnalysis, signal, usageScope).catch(err => {
+                    if (isCancelled(err)) throw err;
+                    console.error("Error checking hero item fidelity:", err);
+                    return null;
+                })
+                : null;
+            // A regional edit keeps the parent's direction; only the masked region changed.
+            const node: HistoryNode = {
+                ...activeNode,
+                id: createId(),
+                parentId: activeNode.id,
+                image: imageUrl,
+                createdAt: Date.now(),
+                ...await getProvenanceFields(heroItem),
+                regionalEdit: { instruction, mask },
+                fidelity,
+                attempts: 1,
+                canvasExtension: undefined,
+                // A new version starts unreviewed.
+                rating: undefined,
+                isWinner: undefined,
+            };
+            setHistory(prev => [...prev, node]);
+            setActiveNodeId(node.id);
+            setCompareNodeIds([]);
+            setRegionEditOpen(false);
+        } catch (err) {
+            reportError(err);
+        } finally {
+            requestRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    const handleExtendCanvas = async (ratio: AspectRatio) => {
+        if (configError) {
+            setError(configError);
+            return;
+        }
+        if (!heroItem || !activeNode) return;
+
+        setIsLoading(true);
+        setError(null);
+        const signal = startRequest();
+
+        try {
+            const imageUrl = await generateCanvasExtension({ heroItem, baseImage: activeNode.image, aspectRatio: ratio, brandKits: activeBrandKits, usage: usageScope, signal });
+            const node: HistoryNode = {
+                ...activeNode,
+                id: createId(),
+                parentId: activeNode.id,
+                image: imageUrl,
+                createdAt: Date.now(),
+                ...await getProvenanceFields(heroItem),
+                regionalEdit: undefined,
+                // The original pixels are kept, so the parent's check still holds; its box no longer lines up.
+                fidelity: activeNode.fidelity && { ...activeNode.fidelity, heroBox: null },
+                attempts: 1,
+                aspectRatio: ratio,
+                canvasExtension: ratio,
+                rating: undefined,
+                isWinner: undefined,
+            };
+            setHistory(prev => [...prev, node]);
+            setActiveNodeId(node.id);
+            setCompareNodeIds([]);
+            setExtendOpen(false);
+        } catch (err) {
+            reportError(err);
+        } finally {
+            requestRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    // The region editor and extend panel show their own errors, so only generation failures get here.
+    const handleRecover = (action: RecoveryAction) => {
+        if (action === 'retry') handleGenerate();
+        else if (action === 'replace-item') handleRemoveHeroItem();
+        else if (action === 'open-usage') setUsageOpen(true);
+        else document.getElementById('style-prompt')?.focus();
+    };
+
+    const updateOutfitItem = (id: string, patch: Partial<OutfitItem>) =>
+        setOutfitItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+
+    // The original upload is kept so the item can be prepared again when cleanup settings change.
+    const prepareHeroItem = async (source: File, settings: PreprocessSettings, isSameItem: boolean) => {
+        setIsPreparing(true);
+        setError(null);
+        try {
+            const { file, steps } = await preprocessImage(source, settings, true);
+            skipAnalysisRef.current = isSameItem;
+            setHeroItemSource(source);
+            setHeroItemSteps(steps);
+            setHeroItem(file);
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    const handleRemoveHeroItem = () => {
+        setHeroItem(null);
+        setHeroItemSource(null);
+        setHeroItemSteps([]);
+    };
+
+    const handlePreprocessSettingsChange = (settings: PreprocessSettings) => {
+        setPreprocessSettings(settings);
+        if (heroItemSource) prepareHeroItem(heroItemSource, settings, true);
+    };
+
+    const handleInspirationSelect = async (file: File) => {
+        setError(null);
+        try {
+            setInspirationPhoto((await preprocessImage(file, preprocessSettings, false)).file);
+        } catch (err) {
+            console.error("Error preparing image:", err);
+            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+        }
+    };
+
+    const handleAddOutfitItems = async (selected: File[]) => {
+        const { files, errors } = await preprocessImages(selected, preprocessSettings, true);
+        setError(errors.length > 0 ? errors.join(' ') : null);
+        const newItems: OutfitItem[] = files.map(file => ({ id: createId(), file, category: null, analysis: null, isIdentifying: true, role: 'secondary', notes: '' }));
+        setOutfitItems(prev => [...prev, ...newItems]);
+        await runWithConcurrency(newItems.map(item => async () => {
+            const analysis = await analyzeItemOrFallback(item.file, undefined, usageScope);
+            updateOutfitItem(item.id, { category: analysis.category, analysis, isIdentifying: false });
+        }), 2);
+    };
+
+    // Detaches from the active version so the next generation starts a new root; history is kept.
+    const handleNewBranch = () => {
+        setActiveNodeId(null);
+        setCompareNodeIds([]);
+        setRegionEditOpen(false);
+        setExportOpen(false);
+        setExtendOpen(false);
+        setError(null);
+    };
+
+    // Presets only fill the fields they define; everything else in the brief is kept.
+    const applyPreset = (preset: StylePreset) => {
+        setBrief(prev => ({ ...prev, ...preset.fields }));
+        setPromptOverride(null);
+        if (preset.inspiration) setInspirationPhoto(dataUrlToFile(preset.inspiration, `${toFileSlug(preset.name)}-inspiration`));
+    };
+
+    const handleSavePresets = async (saved: StylePreset[]) => {
+        await savePresets(saved);
+        setPresets(await listPresets());
+    };
+
+    const handleDeletePreset = async (id: string) => {
+        await deletePreset(id);
+        setPresets(prev => prev.filter(preset => preset.id !== id));
+    };
+
+    const handleSaveBrandKit = async (kit: BrandKit) => {
+        await saveBrandKit(kit);
+        setBrandKits(await listBrandKits());
+        // A new kit is most likely meant for the project it was made in.
+        setBrandKitIds(prev => prev.includes(kit.id) || brandKits.some(existing => existing.id === kit.id) ? prev : [...prev, kit.id]);
+    };
+
+    const handleDeleteBrandKit = async (id: string) => {
+        await deleteBrandKit(id);
+        setBrandKits(prev => prev.filter(kit => kit.id !== id));
+        setBrandKitIds(prev => prev.filter(kitId => kitId !== id));
+    };
+
+    const handleSelectVersion = (id: string) => {
+        const node = history.find(n => n.id === id);
+        if (!node) return;
+        setActiveNodeId(node.id);
+        setCompareNodeIds(prev => prev.filter(compareId => compareId !== node.id));
+        // Restore the direction that produced this version so it can be tweaked and branched.
+        setBrief(node.brief);
+        setPromptOverride(node.stylePrompt === composeBrief(node.brief, node.shotType) ? null : node.stylePrompt);
+        setInspirationPhoto(node.inspirationPhoto);
+        setShotType(node.shotType);
+        setSelectedTalentId(talents.some(talent => talent.id === node.talentId) ? node.talentId : null);
+        setAspectRatio(node.aspectRatio ?? null);
+        setError(null);
+    };
+
+    const handleToggleCompare = (id: string) =>
+        setCompareNodeIds(prev => prev.includes(id) ? prev.filter(compareId => compareId !== id) : [...prev, id].slice(-(MAX_COMPARE_VERSIONS - 1)));
+
+    const updateHistoryNode = (id: string, patch: Partial<HistoryNode>) =>
+        setHistory(prev => prev.map(node => node.id === id ? { ...node, ...patch } : node));
+
+    const handleRate = (id: string, rating: number | undefined) => updateHistoryNode(id, { rating });
+
+    const handleToggleWinner = (id: string) => updateHistoryNode(id, { isWinner: !history.find(node => node.id === id)?.isWinner });
+
+    const handleSaveTalent = (talentId: string | null, details: { name: string; attributes: string }, reference: string) => {
+        if (talentId) {
+            setTalents(prev => prev.map(talent => talent.id === talentId ? { ...talent, references: [...talent.references, reference] } : talent));
+        } else {
+            const talent: TalentProfile = { id: createId(), ...details, references: [reference], createdAt: Date.now() };
+            setTalents(prev => [...prev, talent]);
+            talentId = talent.id;
+        }
+        // Lock the talent in so the next hero item is shot on the same model.
+        setSelectedTalentId(talentId);
+        setCastingOpen(false);
+    };
+
+    const handleRemoveTalent = (id: string) => {
+        setTalents(prev => prev.filter(talent => talent.id !== id));
+        if (selectedTalentId === id) setSelectedTalentId(null);
+    };
+
+    const versionLabels = getVersionLabels(history);
+    const buttonText = activeNode ? `Refine v${versionLabels.get(activeNode.id)}` : 'Create Lookbook';
+    const loadingButtonText = generatedImage ? 'Refining...' : 'Creating...';
+    const isOutfit = outfitItems.length > 0;
+    const currentItems = [itemAnalysis, ...outfitItems.map(item => item.analysis)];
+    const currentSuggestedPresets = getSuggestedPresets(presets, currentItems, shotType);
+    const currentStylePresets = getStylePresets(presets, currentItems, shotType);
+    const budgetWarning = getBudgetWarning(usageLog, budgetSettings);
+    const modeSwitch = (
+        <>
+            <ModeSwitch mode={mode} onChange={setMode} onShowUsage={() => setUsageOpen(true)} />
+            {budgetWarning && <p className="budget-warning">{budgetWarning}</p>}
+        </>
+    );
+    const presetManager = isPresetManagerOpen && (
+        <PresetManager
+            presets={presets}
+            onSave={handleSavePresets}
+            onDelete={handleDeletePreset}
+            onClose={() => setPresetManagerOpen(false)}
+        />
+    );
+
+    const brandKitSelector = (
+        <BrandKitSelector
+            kits={brandKits}
+            selectedIds={brandKitIds}
+            onToggle={(id) => setBrandKitIds(prev => prev.includes(id) ? prev.filter(kitId => kitId !== id) : [...prev, id])}
+            onManage={() => setBrandKitManagerOpen(true)}
+            manager={isBrandKitManagerOpen && (
+                <BrandKitManager
+                    kits={brandKits}
+                    onSave={handleSaveBrandKit}
+                    onDelete={handleDeleteBrandKit}
+                    onClose={() => setBrandKitManagerOpen(false)}
+                />
+            )}
+        />
+    );
+
+    return (
+        <div className="app-container">
+            {isUsageOpen && (
+                <UsageDashboard
+                    records={usageLog}
+                    budget={budgetSettings}
+                    onBudgetChange={setBudgetSettings}
+                    user={usageUser}
+                    onUserChange={setUsageUser}
+                    onClose={() => setUsageOpen(false)}
+                />
+            )}
+            <BatchStudio
+                isActive={mode === 'batch'}
+                modeSwitch={modeSwitch}
+                talents={talents}
+                presets={presets}
+                presetManager={mode === 'batch' && presetManager}
+                onManagePresets={() => setPresetManagerOpen(true)}
+                fidelitySettings={fidelitySettings}
+                onFidelitySettingsChange={setFidelitySettings}
+                preprocessSettings={preprocessSettings}
+                onPreprocessSettingsChange={setPreprocessSettings}
+                brandKits={activeBrandKits}
+                brandKitSelector={brandKitSelector}
+            />
+            <ShotListStudio
+                isActive={mode === 'shotlist'}
+                modeSwitch={modeSwitch}
+                talents={talents}
+                presets={presets}
+                presetManager={mode === 'shotlist' && presetManager}
+                onManagePresets={() => setPresetManagerOpen(true)}
+                fidelitySettings={fidelitySettings}
+                onFidelitySettingsChange={setFidelitySettings}
+                preprocessSettings={preprocessSettings}
+                onPreprocessSettingsChange={setPreprocessSettings}
+                brandKits={activeBrandKits}
+                brandKitSelector={brandKitSelector}
+            />
+            {mode === 'single' && (
+                <>
+                    <aside className={`controls-panel ${isLoading ? 'loading' : ''}`}>
+                        <header className="header">
+                            <h1>The Alchemist's Studio</h1>
+                            <p>Generate a stunning lookbook photograph from your clothing item.</p>
+                            {modeSwitch}
+                            <div className="project-bar">
+                                <span className="project-bar-name" title={projectMeta.name}>{projectMeta.name}</span>
+                                <button className="link-btn" onClick={() => setLibraryOpen(open => !open)}>
+                                    {isLibraryOpen ? 'Hide Projects' : 'Projects'}
+                                </button>
+                            </div>
+                        </header>
+
+                        {isLibraryOpen && (
+                            <ProjectLibrary
+                                currentProjectId={projectMeta.id}
+                                onOpen={handleOpenProject}
+                                onNew={handleNewProject}
+                                onImport={handleImportProject}
+                                onExport={handleExportProject}
+                                onRename={handleRenameProject}
+                                onDelete={handleDeleteProject}
+                                onClose={() => setLibraryOpen(false)}
+                            />
+                        )}
+
+                        <ImageUploader
+                            title="1. Hero Item"
+                            description="(Required) The piece of clothing to feature."
+                            selectedFile={heroItem}
+                            onFileSelect={(file) => prepareHeroItem(file, preprocessSettings, false)}
+                            onFileRemove={handleRemoveHeroItem}
+                            onReuseBrief={setPromptOverride}
+                        />
+                        {isPreparing && <p className="identifying-text">Preparing image...</p>}
+                        {heroItem && heroItemSource && <PreprocessPreview original={heroItemSource} prepared={heroItem} steps={heroItemSteps} />}
+                        <PreprocessControls settings={preprocessSettings} onChange={handlePreprocessSettingsChange} />
+                        {heroItem && itemAnalysis && <ItemAnalysisPanel analysis={itemAnalysis} onChange={setItemAnalysis} onRetry={() => identifyHeroItem(heroItem)} />}
+
+                        {heroItem && (
+                            <>
+                                <ImageUploader
+                                    title="Outfit Pieces"
+                                    description="(Optional) More items to style together with the hero item in one look."
+                                    onFilesSelect={handleAddOutfitItems}
+                                />
+                                {isOutfit && (
+                                    <OutfitItemList
+                                        items={outfitItems}
+                                        onChange={updateOutfitItem}
+                                        onRemove={(id) => setOutfitItems(prev => prev.filter(item => item.id !== id))}
+                                    />
+                                )}
+                            </>
+                        )}
+
+                        <ImageUploader
+                            title="2. Visual Inspiration"
+                            description="(Optional) An image for style, mood, and lighting."
+                            selectedFile={inspirationPhoto}
+                            onFileSelect={handleInspirationSelect}
+                            onFileRemove={() => setInspirationPhoto(null)}
+                            onReuseBrief={setPromptOverride}
+                        />
+
+                        <div className="input-group">
+                            <label htmlFor="style-prompt">3. Creative Brief</label>
+                            <p style={{marginTop: '-4px', marginBottom: '12px'}}><span>(Optional) Direct the scene field by field, or edit the prompt directly.</span></p>
+
+                            {isIdentifying && <p className="identifying-text">Identifying item...</p>}
+                    
+                            {(supportsProductShot(itemCategory) || isOutfit) && (
+                                <div className="presets-container">
+                                    <p className="presets-title">Shot Type</p>
+                                    <div>
+                                        <button 
+                                            className={`preset-btn ${shotType === 'model' ? 'active' : ''}`} 
+                                            onClick={() => setShotType('model')}>
+                                            {(!isOutfit && CATEGORY_SHOT_MODES[itemCategory ?? '']?.label) || 'On-Model'}
+                                        </button>
+                                        <button 
+                                            className={`preset-btn ${shotType === 'product' ? 'active' : ''}`} 
+                                            onClick={() => setShotType('product')}>
+                                            {isOutfit ? 'Flat-lay' : 'Product Shot'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {!activeNode && (
+                                <div className="presets-container">
+                                    <p className="presets-title">Aspect Ratio</p>
+                                    <div>
+                                        <button className={`preset-btn ${aspectRatio === null ? 'active' : ''}`} onClick={() => setAspectRatio(null)}>Auto</button>
+                                        {ASPECT_RATIOS.map(ratio => (
+                                            <button key={ratio} className={`preset-btn ${aspectRatio === ratio ? 'active' : ''}`} onClick={() => setAspectRatio(ratio)}>{ratio}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {talents.length > 0 && shotType === 'model' && (
+                                <TalentPicker
+                                    talents={talents}
+                                    selectedTalentId={selectedTalentId}
+                                    onSelect={setSelectedTalentId}
+                                    onRemove={handleRemoveTalent}
+                                />
+                            )}
+
+                            {currentSuggestedPresets.length > 0 && (
+                                <div className="presets-container">
+                                    <p className="presets-title">Suggested Prompts</p>
+                                    <div>
+                                        {currentSuggestedPresets.map(preset => (
+                                            <button key={preset.id} className="preset-btn" onClick={() => applyPreset(preset)}>{preset.name}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="presets-container">
+                                <div className="casting-panel-header">
+                                    <p className="presets-title">Style Presets</p>
+                                    <button className="link-btn" onClick={() => setPresetManagerOpen(true)}>Manage</button>
+                                </div>
+                                <div>
+                                    {currentStylePresets.map(preset => (
+                                        <button key={preset.id} className="preset-btn" onClick={() => applyPreset(preset)} title={preset.tags.join(', ') || undefined}>
+                                            {preset.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {presetManager}
+
+                            <BriefBuilder
+                                brief={brief}
+                                shotType={shotType}
+                                onFieldChange={(field, value) => setBrief(prev => ({ ...prev, [field]: value }))}
+                                onClear={() => {
+                                    setBrief({});
+                                    setPromptOverride(null);
+                                }}
+                                prompt={stylePrompt}
+                                isPromptEdited={promptOverride !== null}
+                                onPromptEdit={setPromptOverride}
+                                onPromptReset={() => setPromptOverride(null)}
+                            />
+                        </div>
+
+                        {brandKitSelector}
+
+                        <div className="input-group">
+                            <FidelityControls settings={fidelitySettings} onChange={setFidelitySettings} />
+                        </div>
+
+                        <button
+                            className="generate-btn"
+                            onClick={handleGenerate}
+                            disabled={!heroItem || isLoading}
+                        >
+                            {isLoading ? (
+                                <>
+                                    <div className="btn-spinner"></div>
+                                    <span>{loadingButtonText}</span>
+                                </>
+                            ) : (
+                                <span>{buttonText}</span>
+                            )}
+                        </button>
+                        {isLoading && (
+                            <button className="cancel-btn" onClick={() => requestRef.current?.abort()}>Cancel</button>
+                        )}
+                    </aside>
+                    <main className="output-panel">
+                         {isLoading && (
+                            <div className="progress-bar">
+                                <div className="progress-bar-inner"></div>
+                            </div>
+                        )}
+                        <div className={`output-wrapper ${isLoading ? 'is-loading' : ''}`}>
+                            {generatedImage ? (
+                                 <>
+                                    {isRegionEditOpen ? (
+                                        <RegionalEditor
+                                            image={generatedImage}
+                                            disabled={isLoading}
+                                            error={error}
+                                            onApply={handleRegionalEdit}
+                                            onClose={() => {
+                                                setRegionEditOpen(false);
+                                                setError(null);
+                                            }}
+                                        />
+                                    ) : activeNode && compareNodes.length > 0 ? (
+                                        <CompareView
+                                            nodes={[activeNode, ...compareNodes]}
+                                            labels={versionLabels}
+                                            onRate={handleRate}
+                                            onToggleWinner={handleToggleWinner}
+                                        />
+                                    ) : (
+                                        <img src={generatedImage} alt="Generated lookbook" className="output-image" />
+                                    )}
+                                    {activeNode?.fidelity && !isRegionEditOpen && compareNodes.length === 0 && (
+                                        <FidelityBadge report={activeNode.fidelity} attempts={activeNode.attempts} />
+                                    )}
+                                    {activeNode && !isRegionEditOpen && compareNodes.length === 0 && (
+                                        <div className="review-bar">
+                                            <ReviewControls
+                                                node={activeNode}
+                                                onRate={(rating) => handleRate(activeNode.id, rating)}
+                                                onToggleWinner={() => handleToggleWinner(activeNode.id)}
+                                            />
+                                        </div>
+                                    )}
+                                    {error && !isRegionEditOpen && !isExtendOpen && (
+                                        <FailureNotice message={error} failure={failure} onRecover={handleRecover} isOverlay />
+                                    )}
+                                    {isExtendOpen && (
+                                        <ExtendCanvasPanel
+                                            image={generatedImage}
+                                            disabled={isLoading}
+                                            error={error}
+                                            onExtend={handleExtendCanvas}
+                                            onClose={() => {
+                                                setExtendOpen(false);
+                                                setError(null);
+                                            }}
+                                        />
+                                    )}
+                                    {isCastingOpen && (
+                                        <CastingPanel
+                                            image={generatedImage}
+                                            talents={talents}
+                                            onSave={handleSaveTalent}
+                                            onClose={() => setCastingOpen(false)}
+                                        />
+                                    )}
+                                    {isExportOpen && activeNode && (
+                                        <ExportPanel
+                                            image={generatedImage}
+                                            heroBox={activeNode.fidelity?.heroBox ?? null}
+                                            fileStem={`lookbook-v${versionLabels.get(activeNode.id)}`}
+                                            provenance={buildProvenance(activeNode)}
+                                            logoKit={getBrandLogo(activeBrandKits)}
+                                            onClose={() => setExportOpen(false)}
+                                        />
+                                    )}
+                                    {!isRegionEditOpen && !isExportOpen && (
+                                        <div className="output-actions">
+                                            <button onClick={handleOpenRegionEdit} className="start-over-btn" disabled={isLoading}>Edit Region</button>
+                                            <button onClick={handleOpenExtend} className="start-over-btn" disabled={isLoading}>Extend Canvas</button>
+                                            <button onClick={handleNewBranch} className="start-over-btn" disabled={isLoading}>New Branch</button>
+                                            {activeNode?.shotType === 'model' && (
+                                                <button onClick={() => { setCastingOpen(!isCastingOpen); setExtendOpen(false); }} className="start-over-btn" disabled={isLoading}>Cast Model</button>
+                                            )}
+                                            <button className="download-btn" onClick={handleOpenExport} disabled={isLoading}>Export</button>
+                                        </div>
+                                    )}
+                                </>
+                            ) : error || configError ? (
+                                <FailureNotice message={error ?? configError} failure={failure} onRecover={handleRecover} />
+                           ) : history.length > 0 ? (
+                                <div className="placeholder">
+                                   <h2>New Branch</h2>
+                                   <p>Your next creation starts fresh. Earlier versions are kept below.</p>
+                               </div>
+                           ) : (
+                                <div className="placeholder">
+                                   <h2>Your Masterpiece Awaits</h2>
+                                   <p>Upload your assets and let the alchemy begin.</p>
+                               </div>
+                           )}
+                        </div>
+                        {history.length > 0 && (
+                            <HistoryFilmstrip
+                                nodes={history}
+                                activeNodeId={activeNodeId}
+                                compareNodeIds={compareNodeIds}
+                                onSelect={handleSelectVersion}
+                                onToggleCompare={handleToggleCompare}
+                                disabled={isLoading}
+                            />
+                        )}
+                    </main>
+                </>
+            )}
         </div>
     );
 };
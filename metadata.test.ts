@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { embedProvenance, ProvenanceRecord, readProvenance } from './metadata';
+import { crc32 } from './zip';
+
+const RECORD: ProvenanceRecord = {
+    generator: "The Alchemist's Studio",
+    aiGenerated: true,
+    disclosure: 'AI-generated image.',
+    brief: 'Setting: a café at "golden hour" <rooftop> & terrace',
+    shotType: 'model',
+    itemCategory: 'Jacket',
+    model: 'gemini-2.5-flash-image-preview',
+    createdAt: '2026-10-18T12:00:00.000Z',
+    heroItemSha256: 'ab'.repeat(32),
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(new TextEncoder().encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// A 1x1 image's signature, IHDR and IEND; enough structure for the metadata code.
+const createPng = (): Blob => new Blob([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0])),
+    pngChunk('IEND', new Uint8Array()),
+], { type: 'image/png' });
+
+// Start of image, a JFIF APP0 segment, then start of scan and end of image.
+const createJpeg = (): Blob => new Blob([new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+    0xff, 0xda, 0x00, 0x02,
+    0xff, 0xd9,
+])], { type: 'image/jpeg' });
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('embedProvenance and readProvenance', () => {
+    it('round-trips a record through a PNG, keeping IHDR first', async () => {
+        const embedded = await embedProvenance(createPng(), RECORD);
+        const bytes = await readBytes(embedded);
+
+        expect(embedded.type).toBe('image/png');
+        expect(new TextDecoder().decode(bytes.subarray(12, 16))).toBe('IHDR');
+        expect(await readProvenance(embedded)).toEqual(RECORD);
+    });
+
+    it('round-trips a record through a JPEG, keeping the JFIF segment first', async () => {
+        const embedded = await embedProvenance(createJpeg(), RECORD);
+        const bytes = await readBytes(embedded);
+
+        expect(embedded.type).toBe('image/jpeg');
+        expect([bytes[2], bytes[3]]).toEqual([0xff, 0xe0]);
+        expect(await readProvenance(embedded)).toEqual(RECORD);
+    });
+
+    it('returns null for images without provenance', async () => {
+        expect(await readProvenance(createPng())).toBeNull();
+        expect(await readProvenance(createJpeg())).toBeNull();
+    });
+
+    it('leaves formats without an embedding unchanged', async () => {
+        const webp = new Blob([new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 ')], { type: 'image/webp' });
+
+        expect(await embedProvenance(webp, RECORD)).toBe(webp);
+        expect(await readProvenance(webp)).toBeNull();
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { crc32 } from './zip';
+
+// --- Image Provenance Metadata ---
+// Exports carry an XMP packet describing how they were made: in a PNG iTXt chunk (with the common
+// text keywords alongside) or a JPEG APP1 segment. Other formats rely on the sidecar manifest.
+
+export interface ProvenanceRecord {
+    generator: string;
+    aiGenerated: true;
+    disclosure: string;
+    brief: string;
+    shotType: string;
+    itemCategory: string | null;
+    model: string;
+    // ISO 8601 generation time.
+    createdAt: string;
+    heroItemSha256: string | null;
+}
+
+// IPTC's term for media created by a generative model; read by most asset managers.
+const AI_DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const PROVENANCE_NAMESPACE = 'urn:alchemist-studio:ns:1.0';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) => text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+
+const buildXmpPacket = (record: ProvenanceRecord) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:alchemist="${PROVENANCE_NAMESPACE}"
+    xmp:CreatorTool="${escapeXml(record.generator)}"
+    xmp:CreateDate="${escapeXml(record.createdAt)}"
+    Iptc4xmpExt:DigitalSourceType="${AI_DIGITAL_SOURCE_TYPE}">
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(record.brief)}</rdf:li></rdf:Alt></dc:description>
+   <dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(record.disclosure)}</rdf:li></rdf:Alt></dc:rights>
+   <alchemist:provenance>${escapeXml(JSON.stringify(record))}</alchemist:provenance>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const parseXmpPacket = (xmp: string): ProvenanceRecord | null => {
+    const match = xmp.match(/<alchemist:provenance>([\s\S]*?)<\/alchemist:provenance>/);
+    if (!match) return null;
+    try {
+        return JSON.parse(unescapeXml(match[1]));
+    } catch {
+        return null;
+    }
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
+
+const isPng = (bytes: Uint8Array) => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+
+// --- PNG ---
+// Uncompressed iTXt: keyword, null, compression flag and method, empty language and translated keyword, UTF-8 text.
+const createITxtChunk = (keyword: string, text: string): Uint8Array => {
+    const encoder = new TextEncoder();
+    const data = concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encoder.encode('iTXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const embedPng = (bytes: Uint8Array, record: ProvenanceRecord): Uint8Array => {
+    // The signature and IHDR always come first; text chunks may follow directly.
+    const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+    const chunks = [
+        createITxtChunk(XMP_KEYWORD, buildXmpPacket(record)),
+        createITxtChunk('Description', record.brief),
+        createITxtChunk('Software', record.generator),
+        createITxtChunk('Source', record.model),
+        createITxtChunk('Creation Time', record.createdAt),
+        createITxtChunk('Disclaimer', record.disclosure),
+    ];
+    return concatBytes([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+const readPngXmp = (bytes: Uint8Array): string | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const decoder = new TextDecoder();
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+        if (type === 'IDAT' || type === 'IEND') break;
+        if (type === 'iTXt') {
+            const data = bytes.subarray(offset + 8, offset + 8 + length);
+            const keywordEnd = data.indexOf(0);
+            // Only uncompressed text is written by the studio.
+            if (decoder.decode(data.subarray(0, keywordEnd)) === XMP_KEYWORD && data[keywordEnd + 1] === 0) {
+                const languageEnd = data.indexOf(0, keywordEnd + 3);
+                const translatedEnd = data.indexOf(0, languageEnd + 1);
+                return decoder.decode(data.subarray(translatedEnd + 1));
+            }
+        }
+        offset += 12 + length;
+    }
+    return null;
+};
+
+
+// --- JPEG ---
+const embedJpeg = (bytes: Uint8Array, record: ProvenanceRecord): Uint8Array => {
+    const payload = new TextEncoder().encode(JPEG_XMP_HEADER + buildXmpPacket(record));
+    if (payload.length + 2 > 0xffff) throw new Error("The image metadata is too large to embed in a JPEG.");
+    const segment = new Uint8Array(4 + payload.length);
+    segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+    segment.set(payload, 4);
+
+    // Keep the JFIF APP0 segment first, as some readers expect it there.
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+    const decoder = new TextDecoder();
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: no more metadata segments follow.
+        if (marker === 0xda) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (marker === 0xe1) {
+            const segment = bytes.subarray(offset + 4, offset + 2 + length);
+            if (decoder.decode(segment.subarray(0, JPEG_XMP_HEADER.length)) === JPEG_XMP_HEADER) {
+                return decoder.decode(segment.subarray(JPEG_XMP_HEADER.length));
+            }
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+
+// --- Public API ---
+// Formats without an embedding (WebP, AVIF) are returned unchanged.
+export const embedProvenance = async (blob: Blob, record: ProvenanceRecord): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (isPng(bytes)) return new Blob([embedPng(bytes, record)], { type: 'image/png' });
+    if (isJpeg(bytes)) return new Blob([embedJpeg(bytes, record)], { type: 'image/jpeg' });
+    return blob;
+};
+
+export const readProvenance = async (blob: Blob): Promise<ProvenanceRecord | null> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const xmp = isPng(bytes) ? readPngXmp(bytes) : isJpeg(bytes) ? readJpegXmp(bytes) : null;
+    return xmp ? parseXmpPacket(xmp) : null;
+};
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
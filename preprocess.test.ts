@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREPROCESS_SETTINGS, estimateBackdrop, findItemMask, getMaskBounds, readPreprocessSettings } from './preprocess';
+
+const WHITE = [250, 250, 250];
+const NAVY = [20, 30, 90];
+
+// RGBA pixels filled by `color(x, y)`.
+const makeImage = (width: number, height: number, color: (x: number, y: number) => number[]) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+    return data;
+};
+
+// A navy item covering x 5-14 and y 4-13 of a 20x20 white photo.
+const inItem = (x: number, y: number) => x >= 5 && x < 15 && y >= 4 && y < 14;
+const centered = makeImage(20, 20, (x, y) => inItem(x, y) ? NAVY : WHITE);
+
+// Deterministic per-pixel noise in the range -amount..amount.
+const noise = (x: number, y: number, amount: number) => ((x * 7 + y * 13) % (2 * amount + 1)) - amount;
+
+describe('estimateBackdrop', () => {
+    it('finds a uniform backdrop', () => {
+        expect(estimateBackdrop(centered, 20, 20)).toEqual(WHITE);
+    });
+
+    it('tolerates a little sensor noise in the backdrop', () => {
+        const noisy = makeImage(20, 20, (x, y) => inItem(x, y) ? NAVY : WHITE.map(c => c + noise(x, y, 5)));
+        const backdrop = estimateBackdrop(noisy, 20, 20)!;
+        backdrop.forEach((channel, i) => expect(Math.abs(channel - WHITE[i])).toBeLessThanOrEqual(5));
+    });
+
+    it('gives up on a busy background', () => {
+        const busy = makeImage(20, 20, (x, y) => (x + y) % 3 === 0 ? [200, 40, 40] : (x + y) % 3 === 1 ? [40, 200, 40] : [40, 40, 200]);
+        expect(estimateBackdrop(busy, 20, 20)).toBeNull();
+    });
+
+    it('still finds the backdrop when the item touches an edge', () => {
+        const touching = makeImage(20, 20, (x, y) => x >= 5 && x < 15 && y >= 10 ? NAVY : WHITE);
+        expect(estimateBackdrop(touching, 20, 20)).toEqual(WHITE);
+    });
+
+    it('gives up when the item covers half the border', () => {
+        const split = makeImage(20, 20, x => x < 10 ? WHITE : NAVY);
+        expect(estimateBackdrop(split, 20, 20)).toBeNull();
+    });
+});
+
+describe('findItemMask', () => {
+    it('marks the item and clears the backdrop', () => {
+        const mask = findItemMask(centered, 20, 20, WHITE);
+        expect(mask.reduce((sum, value) => sum + value, 0)).toBe(100);
+        expect(mask[4 * 20 + 5]).toBe(1);
+        expect(mask[0]).toBe(0);
+    });
+
+    it('keeps backdrop-colored areas enclosed by the item', () => {
+        // A white logo in the middle of the navy item.
+        const withLogo = makeImage(20, 20, (x, y) => x >= 8 && x < 12 && y >= 7 && y < 11 ? WHITE : inItem(x, y) ? NAVY : WHITE);
+        expect(findItemMask(withLogo, 20, 20, WHITE).reduce((sum, value) => sum + value, 0)).toBe(100);
+    });
+
+    it('keeps item pixels on the image edge', () => {
+        const touching = makeImage(20, 20, (x, y) => x >= 5 && x < 15 && y >= 10 ? NAVY : WHITE);
+        const mask = findItemMask(touching, 20, 20, WHITE);
+        expect(mask[19 * 20 + 5]).toBe(1);
+        expect(mask.reduce((sum, value) => sum + value, 0)).toBe(100);
+    });
+});
+
+describe('getMaskBounds', () => {
+    it('pads the item bounds', () => {
+        // 4% of 20px rounds to 1px of padding.
+        expect(getMaskBounds(findItemMask(centered, 20, 20, WHITE), 20, 20)).toEqual({ x: 4, y: 3, width: 12, height: 12 });
+    });
+
+    it('clips the padding at the image edges', () => {
+        const touching = makeImage(20, 20, (x, y) => x >= 5 && x < 15 && y >= 10 ? NAVY : WHITE);
+        expect(getMaskBounds(findItemMask(touching, 20, 20, WHITE), 20, 20)).toEqual({ x: 4, y: 9, width: 12, height: 11 });
+        expect(getMaskBounds(new Uint8Array(20 * 20).fill(1), 20, 20)).toEqual({ x: 0, y: 0, width: 20, height: 20 });
+    });
+
+    it('is null for an empty mask', () => {
+        expect(getMaskBounds(new Uint8Array(20 * 20), 20, 20)).toBeNull();
+    });
+});
+
+describe('readPreprocessSettings', () => {
+    it('keeps valid saved settings', () => {
+        expect(readPreprocessSettings({ maxDimension: 1024, autoCrop: false, removeBackground: true })).toEqual({ maxDimension: 1024, autoCrop: false, removeBackground: true });
+    });
+
+    it('falls back to the default for each malformed field', () => {
+        expect(readPreprocessSettings({ maxDimension: 99999, autoCrop: 'no', removeBackground: 1 })).toEqual(DEFAULT_PREPROCESS_SETTINGS);
+        expect(readPreprocessSettings({ maxDimension: '1024', removeBackground: true })).toEqual({ ...DEFAULT_PREPROCESS_SETTINGS, removeBackground: true });
+        expect(readPreprocessSettings(null)).toEqual(DEFAULT_PREPROCESS_SETTINGS);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CropRegion } from './export';
+import { isRecord } from './guards';
+
+// --- Input Preprocessing ---
+// Backdrop detection for item photos, on raw RGBA pixels so it can run on any canvas size.
+
+export interface PreprocessSettings {
+    maxDimension: number;
+    autoCrop: boolean;
+    removeBackground: boolean;
+}
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = { maxDimension: 2048, autoCrop: true, removeBackground: false };
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072];
+
+// Saved settings may be from an older version or edited by hand; anything malformed falls back
+// to its default.
+export const readPreprocessSettings = (value: unknown): PreprocessSettings => {
+    const settings = isRecord(value) ? value : {};
+    return {
+        maxDimension: MAX_DIMENSION_OPTIONS.find(size => size === settings.maxDimension) ?? DEFAULT_PREPROCESS_SETTINGS.maxDimension,
+        autoCrop: typeof settings.autoCrop === 'boolean' ? settings.autoCrop : DEFAULT_PREPROCESS_SETTINGS.autoCrop,
+        removeBackground: typeof settings.removeBackground === 'boolean' ? settings.removeBackground : DEFAULT_PREPROCESS_SETTINGS.removeBackground,
+    };
+};
+export const BACKDROP_TOLERANCE = 40;
+export const ITEM_CROP_PADDING = 0.04;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, [r, g, b]: number[]) =>
+    Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b);
+
+// Product photos are usually shot on a plain backdrop. Its color is the median of the border;
+// returns null when the border is too varied to be a backdrop.
+export const estimateBackdrop = (data: Uint8ClampedArray, width: number, height: number): number[] | null => {
+    const border: number[] = [];
+    for (let x = 0; x < width; x++) border.push(x * 4, ((height - 1) * width + x) * 4);
+    for (let y = 1; y < height - 1; y++) border.push(y * width * 4, (y * width + width - 1) * 4);
+    const median = [0, 1, 2].map(channel => {
+        const values = border.map(i => data[i + channel]).sort((a, b) => a - b);
+        return values[Math.floor(values.length / 2)];
+    });
+    const matching = border.filter(i => colorDistance(data, i, median) <= BACKDROP_TOLERANCE).length;
+    return matching / border.length >= 0.6 ? median : null;
+};
+
+// Flood-fills the backdrop inward from the border, so item areas that happen to share its color
+// are kept as long as they're enclosed by the item. Returns 1 for item pixels, 0 for backdrop.
+export const findItemMask = (data: Uint8ClampedArray, width: number, height: number, backdrop: number[]): Uint8Array => {
+    const mask = new Uint8Array(width * height).fill(1);
+    const stack: number[] = [];
+    const visit = (x: number, y: number) => {
+        const index = y * width + x;
+        if (mask[index] && colorDistance(data, index * 4, backdrop) <= BACKDROP_TOLERANCE) {
+            mask[index] = 0;
+            stack.push(index);
+        }
+    };
+    for (let x = 0; x < width; x++) { visit(x, 0); visit(x, height - 1); }
+    for (let y = 0; y < height; y++) { visit(0, y); visit(width - 1, y); }
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = (index - x) / width;
+        if (x > 0) visit(x - 1, y);
+        if (x < width - 1) visit(x + 1, y);
+        if (y > 0) visit(x, y - 1);
+        if (y < height - 1) visit(x, y + 1);
+    }
+    return mask;
+};
+
+// Bounds of the item pixels plus padding, clipped to the image; null when the mask is empty.
+export const getMaskBounds = (mask: Uint8Array, width: number, height: number): CropRegion | null => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!mask[y * width + x]) continue;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    if (maxX < 0) return null;
+    const pad = Math.round(Math.max(width, height) * ITEM_CROP_PADDING);
+    const x = Math.max(0, minX - pad);
+    const y = Math.max(0, minY - pad);
+    return { x, y, width: Math.min(width, maxX + 1 + pad) - x, height: Math.min(height, maxY + 1 + pad) - y };
+};
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { composeBrief, exportPresetPack, PRESET_PACK_FORMAT, PRESET_PACK_VERSION, readPackPreset, readPresetPack, StylePreset, toItemCategory } from './presets';
+
+const packFile = (contents: unknown) =>
+    new File([typeof contents === 'string' ? contents : JSON.stringify(contents)], 'pack.json', { type: 'application/json' });
+
+const preset: StylePreset = {
+    id: 'team-1',
+    name: 'Rooftop Dusk',
+    kind: 'style',
+    fields: { setting: 'A city rooftop', lighting: 'Golden hour sunlight' },
+    tags: ['Summer'],
+    categories: ['Jacket'],
+    shotTypes: ['model'],
+    scope: 'any',
+    inspiration: null,
+    updatedAt: 1_700_000_000_000,
+};
+
+describe('composeBrief', () => {
+    it('leaves model-only fields out of product shots', () => {
+        const brief = { setting: 'A marble counter', pose: 'Leaning on a wall' };
+        expect(composeBrief(brief, 'model')).toBe('Location / Setting: A marble counter\nModel Pose: Leaning on a wall');
+        expect(composeBrief(brief, 'product')).toBe('Location / Setting: A marble counter');
+    });
+});
+
+describe('toItemCategory', () => {
+    it('matches known categories regardless of case and whitespace', () => {
+        expect(toItemCategory(' t-shirt ')).toBe('T-Shirt');
+        expect(toItemCategory('Scarf')).toBeNull();
+        expect(toItemCategory(3)).toBeNull();
+    });
+});
+
+describe('readPackPreset', () => {
+    it('keeps a well-formed preset as it was exported', () => {
+        expect(readPackPreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset);
+    });
+
+    it('drops unknown brief fields, categories and shot types', () => {
+        const read = readPackPreset({
+            ...preset,
+            fields: { setting: 'A city rooftop', script: '<b>injected</b>', mood: '   ', lens: 85 },
+            categories: ['jacket', 'Scarf', 'JACKET', 'Watch'],
+            shotTypes: ['model', 'video'],
+        });
+        expect(read.fields).toEqual({ setting: 'A city rooftop' });
+        expect(read.categories).toEqual(['Jacket', 'Watch']);
+        expect(read.shotTypes).toEqual(['model']);
+    });
+
+    it('falls back to defaults for missing or invalid values', () => {
+        const read = readPackPreset({ id: 'team-2', name: '  Studio White  ', kind: 'custom', scope: 'everything', inspiration: 'https://example.com/a.png', tags: 'Summer' });
+        expect(read).toMatchObject({ name: 'Studio White', kind: 'style', scope: 'any', inspiration: null, tags: [], categories: [], shotTypes: [], fields: {} });
+        expect(typeof read.updatedAt).toBe('number');
+    });
+
+    it('rejects presets without an id or a name', () => {
+        expect(() => readPackPreset({ ...preset, name: ' ' })).toThrow('without a name');
+        expect(() => readPackPreset({ ...preset, id: 1 })).toThrow('without a name');
+        expect(() => readPackPreset(null)).toThrow('without a name');
+    });
+});
+
+describe('readPresetPack', () => {
+    it('round-trips an exported pack', async () => {
+        const pack = exportPresetPack('Team', [preset]);
+        expect(await readPresetPack(new File([pack], 'pack.json'))).toEqual([preset]);
+    });
+
+    it('rejects files that are not preset packs', async () => {
+        await expect(readPresetPack(packFile('{ not json'))).rejects.toThrow('not a valid preset pack');
+        await expect(readPresetPack(packFile({ format: 'other', version: 1, presets: [] }))).rejects.toThrow('not an Alchemist');
+        await expect(readPresetPack(packFile({ format: PRESET_PACK_FORMAT, version: 1, presets: {} }))).rejects.toThrow('not an Alchemist');
+    });
+
+    it('rejects packs from a newer version or without one', async () => {
+        await expect(readPresetPack(packFile({ format: PRESET_PACK_FORMAT, version: PRESET_PACK_VERSION + 1, presets: [] }))).rejects.toThrow('newer version');
+        await expect(readPresetPack(packFile({ format: PRESET_PACK_FORMAT, version: '1', presets: [] }))).rejects.toThrow('newer version');
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isRecord, isStringList } from './guards';
+
+// --- Creative Brief ---
+// The brief, item categories and preset types are shared by the studio, its built-in presets and
+// team preset packs. Packs are read from user files, so everything in them is validated here.
+export type ShotType = 'model' | 'product';
+
+export type BriefField = 'setting' | 'lighting' | 'timeOfDay' | 'framing' | 'lens' | 'pose' | 'demographics' | 'props' | 'palette' | 'mood' | 'notes';
+
+export type CreativeBrief = Partial<Record<BriefField, string>>;
+
+export interface BriefFieldDefinition {
+    key: BriefField;
+    label: string;
+    placeholder: string;
+    suggestions?: string[];
+    // Fields describing the person are left out of product shots.
+    modelOnly?: boolean;
+}
+
+export const BRIEF_FIELDS: BriefFieldDefinition[] = [
+    { key: 'setting', label: 'Location / Setting', placeholder: 'e.g., a neon-lit Tokyo street' },
+    { key: 'lighting', label: 'Lighting', placeholder: 'e.g., soft window light', suggestions: ['Soft natural light', 'Golden hour sunlight', 'Hard flash', 'Studio softbox', 'Neon glow', 'Overcast daylight'] },
+    { key: 'timeOfDay', label: 'Time of Day', placeholder: 'e.g., dusk', suggestions: ['Sunrise', 'Midday', 'Golden hour', 'Dusk', 'Night'] },
+    { key: 'framing', label: 'Camera Angle & Framing', placeholder: 'e.g., low-angle full-body shot', suggestions: ['Full-body shot', 'Three-quarter shot', 'Waist-up shot', 'Close-up', 'Low angle', 'Overhead flat lay'] },
+    { key: 'lens', label: 'Lens & Depth of Field', placeholder: 'e.g., 85mm, shallow depth of field', suggestions: ['35mm wide, deep focus', '50mm, natural perspective', '85mm, shallow depth of field', 'Macro detail'] },
+    { key: 'pose', label: 'Model Pose', placeholder: 'e.g., walking toward camera', modelOnly: true },
+    { key: 'demographics', label: 'Model Demographics', placeholder: 'e.g., woman in her 30s', modelOnly: true },
+    { key: 'props', label: 'Props', placeholder: 'e.g., vintage bicycle, coffee cup' },
+    { key: 'palette', label: 'Color Palette', placeholder: 'e.g., warm terracotta and cream' },
+    { key: 'mood', label: 'Mood', placeholder: 'e.g., confident and playful' },
+    { key: 'notes', label: 'Additional Direction', placeholder: 'Anything else, in your own words' },
+];
+
+export const getBriefFields = (shotType: ShotType) => BRIEF_FIELDS.filter(field => shotType === 'model' || !field.modelOnly);
+
+export const isShotType = (value: unknown): value is ShotType => value === 'model' || value === 'product';
+
+// Keeps the known, filled-in fields of a brief read from a file.
+export const readBrief = (value: unknown): CreativeBrief => {
+    const brief: CreativeBrief = {};
+    const fields = isRecord(value) ? value : {};
+    for (const { key } of BRIEF_FIELDS) {
+        const field = fields[key];
+        if (typeof field === 'string' && field.trim()) brief[key] = field;
+    }
+    return brief;
+};
+
+// Composes the filled fields into the text sent as the CREATIVE BRIEF, one labelled line per field.
+export const composeBrief = (brief: CreativeBrief, shotType: ShotType): string =>
+    getBriefFields(shotType)
+        .filter(field => brief[field.key]?.trim())
+        .map(field => `${field.label}: ${brief[field.key]!.trim()}`)
+        .join('\n');
+
+
+// --- Item Categories ---
+export const CATEGORY_INTEGRITY_RULES: { [category: string]: string } = {
+    'T-Shirt': 'Keep the neckline, sleeve length, print and graphics exactly as shown.',
+    'Top': 'Keep the neckline, sleeves, fabric and any pattern exactly as shown.',
+    'Jacket': 'Keep the collar, closures, pockets, hardware and length exactly as shown.',
+    'Pants': 'Keep the cut, length, waistband, stitching and pockets exactly as shown.',
+    'Dress': 'Keep the silhouette, length, neckline and pattern exactly as shown.',
+    'Watch': 'Keep the dial, hands, markers, case shape and strap exactly as shown.',
+    'Bracelet': 'Keep the links, stones, clasp and metal finish exactly as shown.',
+    'Ring': 'Keep the band, setting, stones and metal finish exactly as shown.',
+    'Necklace': 'Keep the chain, pendant, stones and length exactly as shown.',
+    'Earrings': 'Keep the shape, stones, drop length and metal finish exactly as shown.',
+    'Hat': 'Keep the crown shape, brim, band and any logos exactly as shown.',
+    'Shoes': 'Keep the silhouette, sole, laces, stitching and any logos exactly as shown.',
+    'Handbag': 'Keep the shape, hardware, straps, stitching and logos exactly as shown.',
+};
+
+export const ITEM_CATEGORIES = Object.keys(CATEGORY_INTEGRITY_RULES);
+
+export const toItemCategory = (value: unknown): string | null =>
+    typeof value === 'string' ? ITEM_CATEGORIES.find(category => category.toLowerCase() === value.trim().toLowerCase()) ?? null : null;
+
+
+// --- Presets ---
+// Style presets are always offered; suggested ones only appear once the items are identified.
+export type PresetKind = 'style' | 'suggested';
+// Whether a preset suits a single item, a multi-item outfit, or both.
+export type PresetScope = 'single' | 'outfit' | 'any';
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    kind: PresetKind;
+    // Presets fill only the fields they care about and are merged into the current brief.
+    fields: CreativeBrief;
+    tags: string[];
+    // Empty lists match every category or shot type.
+    categories: string[];
+    shotTypes: ShotType[];
+    scope: PresetScope;
+    // Bundled inspiration photo, as a data URL.
+    inspiration: string | null;
+    updatedAt: number;
+}
+
+
+// --- Preset Packs ---
+export const PRESET_PACK_FORMAT = 'alchemist-preset-pack';
+export const PRESET_PACK_VERSION = 1;
+
+// Validates one preset from a pack, keeping only known brief fields and categories so a
+// malformed or hand-edited pack can't inject arbitrary data into the library.
+export const readPackPreset = (value: unknown): StylePreset => {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !value.name.trim()) {
+        throw new Error("The preset pack contains a preset without a name.");
+    }
+    return {
+        id: value.id,
+        name: value.name.trim(),
+        kind: value.kind === 'suggested' ? 'suggested' : 'style',
+        fields: readBrief(value.fields),
+        tags: isStringList(value.tags) ? value.tags : [],
+        categories: isStringList(value.categories) ? [...new Set(value.categories.map(toItemCategory).filter((category): category is string => !!category))] : [],
+        shotTypes: isStringList(value.shotTypes) ? value.shotTypes.filter(isShotType) : [],
+        scope: value.scope === 'single' || value.scope === 'outfit' ? value.scope : 'any',
+        inspiration: typeof value.inspiration === 'string' && value.inspiration.startsWith('data:image/') ? value.inspiration : null,
+        updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : Date.now(),
+    };
+};
+
+export const exportPresetPack = (name: string, presets: StylePreset[]): Blob => {
+    const pack = { format: PRESET_PACK_FORMAT, version: PRESET_PACK_VERSION, name, exportedAt: new Date().toISOString(), presets };
+    return new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+};
+
+// Presets keep their ids across packs, so re-importing an updated team pack replaces the
+// previous copies instead of duplicating them.
+export const readPresetPack = async (file: File): Promise<StylePreset[]> => {
+    let pack: unknown;
+    try {
+        pack = JSON.parse(await file.text());
+    } catch {
+        throw new Error("This file is not a valid preset pack.");
+    }
+    if (!isRecord(pack) || pack.format !== PRESET_PACK_FORMAT || !Array.isArray(pack.presets)) throw new Error("This file is not an Alchemist's Studio preset pack.");
+    if (typeof pack.version !== 'number' || pack.version > PRESET_PACK_VERSION) throw new Error("This preset pack was exported by a newer version of the studio.");
+    return pack.presets.map(readPackPreset);
+};
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createBasicAnalysis } from './analysis';
+import { getVersionLabels, HistoryNode, readArchivedProject } from './project';
+
+const heroItem = new File(['hero'], 'hero.jpg', { type: 'image/jpeg' });
+const bag = new File(['bag'], 'bag.jpg', { type: 'image/jpeg' });
+const IMAGE = 'data:image/png;base64,AAAA';
+
+const node = (id: string, parentId: string | null, extra: object = {}) => ({
+    id,
+    parentId,
+    image: IMAGE,
+    brief: { setting: 'A rooftop at dusk' },
+    stylePrompt: 'Editorial',
+    inspirationPhoto: null,
+    shotType: 'model',
+    itemCategory: 'Jacket',
+    talentId: null,
+    createdAt: 1000,
+    ...extra,
+});
+
+// An archived project as importProjectArchive unpacks it, before any checks.
+const archive = (extra: object = {}) => ({
+    name: 'Autumn Drop',
+    createdAt: 500,
+    heroItem,
+    itemCategory: 'Jacket',
+    inspirationPhoto: null,
+    outfitItems: [],
+    brief: { mood: 'Confident' },
+    promptOverride: null,
+    shotType: 'model',
+    history: [node('a', null), node('b', 'a')],
+    activeNodeId: 'a',
+    talents: [],
+    selectedTalentId: null,
+    aspectRatio: '4:5',
+    ...extra,
+});
+
+const damaged = "This project archive is damaged and can't be imported.";
+
+describe('readArchivedProject', () => {
+    it('reads a well-formed archive and gives it a new id', () => {
+        const project = readArchivedProject(archive());
+        expect(project).toMatchObject({
+            name: 'Autumn Drop',
+            createdAt: 500,
+            heroItem,
+            heroItemSource: null,
+            itemAnalysis: null,
+            brief: { mood: 'Confident' },
+            activeNodeId: 'a',
+            aspectRatio: '4:5',
+            brandKitIds: [],
+        });
+        expect(project.id).toEqual(expect.any(String));
+        expect(project.history.map(n => n.id)).toEqual(['a', 'b']);
+    });
+
+    it('drops keys it does not know', () => {
+        const project = readArchivedProject(archive({ isAdmin: true, history: [node('a', null, { extra: 'x' })] }));
+        expect(project).not.toHaveProperty('isAdmin');
+        expect(project.history[0]).not.toHaveProperty('extra');
+    });
+
+    it('falls back to defaults for malformed project fields', () => {
+        const project = readArchivedProject(archive({
+            name: '  ',
+            brief: 'moody',
+            shotType: 'selfie',
+            aspectRatio: '5:7',
+            activeNodeId: 'missing',
+            selectedTalentId: 'missing',
+            brandKitIds: ['kit', 3],
+        }));
+        expect(project).toMatchObject({
+            name: 'Imported Project',
+            brief: {},
+            shotType: 'model',
+            aspectRatio: null,
+            activeNodeId: 'b',
+            selectedTalentId: null,
+            brandKitIds: [],
+        });
+    });
+
+    it('reads outfit item roles and notes', () => {
+        const project = readArchivedProject(archive({
+            outfitItems: [
+                { id: 'o1', file: bag, category: 'Handbag', role: 'primary', notes: 'Keep the brass clasp.', isIdentifying: true },
+                { id: 'o2', file: bag, category: null, role: 'hero', notes: 42 },
+            ],
+        }));
+        expect(project.outfitItems).toEqual([
+            { id: 'o1', file: bag, category: 'Handbag', analysis: null, isIdentifying: false, role: 'primary', notes: 'Keep the brass clasp.' },
+            { id: 'o2', file: bag, category: null, analysis: null, isIdentifying: false, role: 'secondary', notes: '' },
+        ]);
+    });
+
+    it('reads the brief, fidelity, aspect ratio and shot type of each version', () => {
+        const fidelity = { score: 82, passed: true, discrepancies: ['Buttons are silver'], modelScore: 90, colorSimilarity: 0.8, perceptualSimilarity: 0.6, heroBox: { x: 0.2, y: 0.1, width: 0.5, height: 0.6 } };
+        const [valid, malformed] = readArchivedProject(archive({
+            history: [
+                node('a', null, { brief: { setting: 'Studio', lens: '', unknown: 'x' }, fidelity, aspectRatio: '16:9', shotType: 'product' }),
+                node('b', 'a', { brief: ['Studio'], fidelity: { score: 'high' }, aspectRatio: 'wide', shotType: 'drone', canvasExtension: '7:1' }),
+            ],
+        })).history;
+        expect(valid).toMatchObject({ brief: { setting: 'Studio' }, fidelity, aspectRatio: '16:9', shotType: 'product' });
+        expect(malformed).toMatchObject({ brief: {}, fidelity: null, aspectRatio: null, shotType: 'model', canvasExtension: undefined });
+    });
+
+    it('fills in missing fidelity report fields', () => {
+        const [version] = readArchivedProject(archive({ history: [node('a', null, { fidelity: { score: 120, heroBox: { x: 0.5, y: 0.5, width: 0, height: 1 } } })] })).history;
+        expect(version.fidelity).toEqual({ score: 100, passed: true, discrepancies: [], modelScore: null, colorSimilarity: 0, perceptualSimilarity: 0, heroBox: null });
+    });
+
+    it('reads the item analysis of the hero item and outfit items', () => {
+        const analysis = { ...createBasicAnalysis('Jacket'), subcategory: 'Hand-written description that is kept as typed', colors: ['#112233'], gender: 'Women' };
+        const project = readArchivedProject(archive({
+            itemAnalysis: { ...analysis, status: 'analyzed', injected: true },
+            outfitItems: [
+                { id: 'o1', file: bag, category: 'Handbag', role: 'secondary', notes: '', analysis: { category: 'Handbag', colors: ['red', '#aabbcc'], gender: 'Robots', details: 'Clasp', status: 'unknown' } },
+                { id: 'o2', file: bag, category: 'Handbag', role: 'secondary', notes: '', analysis: ['Handbag'] },
+            ],
+        }));
+        expect(project.itemAnalysis).toEqual({ ...analysis, status: 'analyzed' });
+        expect(project.outfitItems[0].analysis).toEqual({ ...createBasicAnalysis('Handbag'), colors: ['#aabbcc'] });
+        expect(project.outfitItems[1].analysis).toBeNull();
+    });
+
+    it('rejects archives missing the parts the studio needs', () => {
+        expect(() => readArchivedProject(null)).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ history: 'none' }))).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ history: [node('a', null, { image: null })] }))).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ history: [node('a', null, { inspirationPhoto: 'photo.jpg' })] }))).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ heroItem: 'hero.jpg' }))).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ outfitItems: [{ id: 'o1', file: null }] }))).toThrow(damaged);
+        expect(() => readArchivedProject(archive({ talents: [{ id: 't1', name: 'Ana' }] }))).toThrow(damaged);
+    });
+});
+
+describe('getVersionLabels', () => {
+    const versions = (...links: Array<[string, string | null]>) =>
+        links.map(([id, parentId]) => ({ id, parentId }) as HistoryNode);
+
+    it('numbers fresh generations and their refinements along the tree', () => {
+        const labels = getVersionLabels(versions(['a', null], ['b', 'a'], ['c', null], ['d', 'a'], ['e', 'd'], ['f', 'c']));
+        expect(Object.fromEntries(labels)).toEqual({ a: '1', b: '1.1', c: '2', d: '1.2', e: '1.2.1', f: '2.1' });
+    });
+
+    it('is empty without versions', () => {
+        expect(getVersionLabels([]).size).toBe(0);
+    });
+});
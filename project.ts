@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ItemAnalysis, readStoredAnalysis } from './analysis';
+import { FidelityReport, readFidelityReport } from './fidelity';
+import { isRecord, isStringList } from './guards';
+import { CreativeBrief, isShotType, readBrief, ShotType } from './presets';
+
+// --- Aspect Ratio ---
+// Ratios the image model can frame natively; the prompt states the ratio too.
+export const ASPECT_RATIOS = ['1:1', '4:5', '3:4', '2:3', '9:16', '4:3', '3:2', '16:9', '21:9'] as const;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+export const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.some(ratio => ratio === value);
+
+
+// --- Version History ---
+export interface HistoryNode {
+    id: string;
+    parentId: string | null;
+    image: string;
+    brief: CreativeBrief;
+    stylePrompt: string;
+    inspirationPhoto: File | null;
+    shotType: ShotType;
+    itemCategory: string | null;
+    talentId: string | null;
+    createdAt: number;
+    // Set for versions made by repainting a masked region of the parent.
+    regionalEdit?: { instruction: string; mask: string };
+    // Hero item check of this version, when enabled; attempts counts automatic retries.
+    fidelity?: FidelityReport | null;
+    attempts?: number;
+    // Frame requested for this generation; null lets the model choose.
+    aspectRatio?: AspectRatio | null;
+    // Set for versions made by outpainting the parent to a new ratio.
+    canvasExtension?: AspectRatio;
+    // Provenance, embedded in exports.
+    model?: string;
+    heroItemSha256?: string | null;
+    // Team review: a 1-5 star rating, and whether it's shortlisted as a winner.
+    rating?: number;
+    isWinner?: boolean;
+}
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Labels follow the tree path, e.g. "2.1" is the first refinement of the second fresh generation.
+export const getVersionLabels = (nodes: HistoryNode[]): Map<string, string> => {
+    const labels = new Map<string, string>();
+    const childCounts = new Map<string | null, number>();
+    for (const node of nodes) {
+        const index = (childCounts.get(node.parentId) ?? 0) + 1;
+        childCounts.set(node.parentId, index);
+        const parentLabel = node.parentId ? labels.get(node.parentId) : null;
+        labels.set(node.id, parentLabel ? `${parentLabel}.${index}` : `${index}`);
+    }
+    return labels;
+};
+
+
+// --- Casting ---
+export interface TalentProfile {
+    id: string;
+    name: string;
+    attributes: string;
+    // Cropped stills of the model, as data URLs.
+    references: string[];
+    createdAt: number;
+}
+
+
+// --- Outfit ---
+export type ItemRole = 'primary' | 'secondary';
+
+export interface OutfitItem {
+    id: string;
+    file: File;
+    category: string | null;
+    analysis: ItemAnalysis | null;
+    isIdentifying: boolean;
+    role: ItemRole;
+    // Extra integrity rules from the user, on top of the category defaults.
+    notes: string;
+}
+
+
+// --- Project Library ---
+export interface ProjectState {
+    heroItem: File | null;
+    // The upload before preprocessing, kept so cleanup settings can be changed later.
+    heroItemSource?: File | null;
+    itemCategory: string | null;
+    // Missing from projects saved before item analysis, which only stored the category.
+    itemAnalysis?: ItemAnalysis | null;
+    inspirationPhoto: File | null;
+    outfitItems: OutfitItem[];
+    brief: CreativeBrief;
+    promptOverride: string | null;
+    shotType: ShotType;
+    history: HistoryNode[];
+    activeNodeId: string | null;
+    talents: TalentProfile[];
+    selectedTalentId: string | null;
+    aspectRatio: AspectRatio | null;
+    // Brand kits applied to this project's generations; kits themselves live in their own store.
+    brandKitIds?: string[];
+}
+
+export interface Project extends ProjectState {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export const createEmptyProject = (): Project => ({
+    id: createId(),
+    name: `Untitled Project ${new Date().toLocaleDateString()}`,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    heroItem: null,
+    heroItemSource: null,
+    itemCategory: null,
+    itemAnalysis: null,
+    inspirationPhoto: null,
+    outfitItems: [],
+    brief: {},
+    promptOverride: null,
+    shotType: 'model',
+    history: [],
+    activeNodeId: null,
+    talents: [],
+    selectedTalentId: null,
+    aspectRatio: null,
+    brandKitIds: [],
+});
+
+// Archives are unpacked from user files, so each part is rebuilt field by field: ids, images and
+// files the studio can't work without must be there, anything else falls back to its default and
+// unknown keys are dropped.
+const damaged = () => new Error("This project archive is damaged and can't be imported.");
+
+const readText = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+const readOptionalText = (value: unknown) => typeof value === 'string' ? value : null;
+const readTime = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : Date.now();
+
+const readOptionalFile = (value: unknown): File | null => {
+    if (value === undefined || value === null) return null;
+    if (!(value instanceof File)) throw damaged();
+    return value;
+};
+
+const readHistoryNode = (value: unknown): HistoryNode => {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.image !== 'string') throw damaged();
+    const { regionalEdit, attempts, rating } = value;
+    return {
+        id: value.id,
+        parentId: readOptionalText(value.parentId),
+        image: value.image,
+        brief: readBrief(value.brief),
+        stylePrompt: readText(value.stylePrompt),
+        inspirationPhoto: readOptionalFile(value.inspirationPhoto),
+        shotType: isShotType(value.shotType) ? value.shotType : 'model',
+        itemCategory: readOptionalText(value.itemCategory),
+        talentId: readOptionalText(value.talentId),
+        createdAt: readTime(value.createdAt),
+        regionalEdit: isRecord(regionalEdit) && typeof regionalEdit.instruction === 'string' && typeof regionalEdit.mask === 'string'
+            ? { instruction: regionalEdit.instruction, mask: regionalEdit.mask }
+            : undefined,
+        fidelity: readFidelityReport(value.fidelity),
+        attempts: typeof attempts === 'number' && Number.isInteger(attempts) && attempts >= 1 ? attempts : undefined,
+        aspectRatio: isAspectRatio(value.aspectRatio) ? value.aspectRatio : null,
+        canvasExtension: isAspectRatio(value.canvasExtension) ? value.canvasExtension : undefined,
+        model: readOptionalText(value.model) ?? undefined,
+        heroItemSha256: readOptionalText(value.heroItemSha256),
+        rating: typeof rating === 'number' && Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : undefined,
+        isWinner: value.isWinner === true,
+    };
+};
+
+const readTalent = (value: unknown): TalentProfile => {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !isStringList(value.references)) throw damaged();
+    return {
+        id: value.id,
+        name: value.name,
+        attributes: readText(value.attributes),
+        references: value.references,
+        createdAt: readTime(value.createdAt),
+    };
+};
+
+const readOutfitItem = (value: unknown): OutfitItem => {
+    if (!isRecord(value) || typeof value.id !== 'string' || !(value.file instanceof File)) throw damaged();
+    return {
+        id: value.id,
+        file: value.file,
+        category: readOptionalText(value.category),
+        analysis: readStoredAnalysis(value.analysis),
+        // An archive saved mid-identification would otherwise show a spinner that never ends.
+        isIdentifying: false,
+        role: value.role === 'primary' ? 'primary' : 'secondary',
+        notes: readText(value.notes),
+    };
+};
+
+// Imports always get a new id, so a teammate's archive never overwrites local work.
+export const readArchivedProject = (value: unknown): Project => {
+    if (!isRecord(value)) throw damaged();
+    const { history, talents, outfitItems } = value;
+    if (!Array.isArray(history) || !Array.isArray(talents) || !Array.isArray(outfitItems)) throw damaged();
+
+    const nodes = history.map(readHistoryNode);
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const talentProfiles = talents.map(readTalent);
+    return {
+        id: createId(),
+        name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Imported Project',
+        createdAt: readTime(value.createdAt),
+        updatedAt: Date.now(),
+        heroItem: readOptionalFile(value.heroItem),
+        heroItemSource: readOptionalFile(value.heroItemSource),
+        itemCategory: readOptionalText(value.itemCategory),
+        itemAnalysis: readStoredAnalysis(value.itemAnalysis),
+        inspirationPhoto: readOptionalFile(value.inspirationPhoto),
+        outfitItems: outfitItems.map(readOutfitItem),
+        brief: readBrief(value.brief),
+        promptOverride: readOptionalText(value.promptOverride),
+        shotType: isShotType(value.shotType) ? value.shotType : 'model',
+        history: nodes,
+        activeNodeId: typeof value.activeNodeId === 'string' && nodeIds.has(value.activeNodeId) ? value.activeNodeId : nodes[nodes.length - 1]?.id ?? null,
+        talents: talentProfiles,
+        selectedTalentId: talentProfiles.find(talent => talent.id === value.selectedTalentId)?.id ?? null,
+        aspectRatio: isAspectRatio(value.aspectRatio) ? value.aspectRatio : null,
+        brandKitIds: isStringList(value.brandKitIds) ? value.brandKitIds : [],
+    };
+};
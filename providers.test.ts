@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProxyProvider, ModelError } from './providers';
+
+const respond = (status: number, body: unknown) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })));
+
+const provider = createProxyProvider({ provider: 'proxy' });
+const image = { inlineData: { mimeType: 'image/png', data: 'AAAA' } };
+
+describe('createProxyProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("returns each route's field and reports usage", async () => {
+        const usage = { model: 'gemini', inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+        const onUsage = vi.fn();
+        respond(200, { analysis: '{"category": "Hat"}', usage: [usage, { model: 3 }] });
+        await expect(provider.analyzeItem({ prompt: 'Describe it', image }, { onUsage })).resolves.toBe('{"category": "Hat"}');
+        expect(onUsage).toHaveBeenCalledExactlyOnceWith(usage);
+
+        respond(200, { verdict: '{"score": 90}' });
+        await expect(provider.checkFidelity({ prompt: 'Compare', reference: image, image })).resolves.toBe('{"score": 90}');
+    });
+
+    it('treats a 200 without the expected field as a server error', async () => {
+        for (const body of [{ analysis: 'wrong route' }, { image: 42 }, { image: '' }, null, ['data:image/png;base64,AAAA']]) {
+            respond(200, body);
+            const err = await provider.generateImage({ parts: [{ text: 'A shot' }], heroItem: image }).catch(e => e);
+            expect(err).toBeInstanceOf(ModelError);
+            expect(err.kind).toBe('server');
+        }
+    });
+
+    it('reads typed errors from failed responses', async () => {
+        respond(422, { error: 'Blocked.', kind: 'safety', details: { reason: 'SAFETY' } });
+        await expect(provider.editImage({ parts: [], heroItem: image, baseImage: image, mask: image })).rejects.toMatchObject({ kind: 'safety', message: 'Blocked.' });
+    });
+});
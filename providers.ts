@@ -0,0 +1,564 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Part, Schema, Type } from "@google/genai";
+
+// --- Provider Interface ---
+// The studio builds its prompts as ordered text/image parts and hands them to a provider.
+// Providers only decide how those parts turn into an item analysis or an image.
+
+export type ProviderId = 'proxy' | 'gemini' | 'mock';
+
+export interface AnalyzeRequest {
+    prompt: string;
+    image: Part;
+}
+
+export interface FidelityRequest {
+    prompt: string;
+    reference: Part;
+    image: Part;
+}
+
+export interface ImageGenerationRequest {
+    // The full interleaved prompt, in the order the model should read it.
+    parts: Part[];
+    // Also present in `parts`; exposed separately for providers that composite locally.
+    heroItem: Part;
+    // Target frame such as '16:9'; also stated in the prompt for models without native support.
+    aspectRatio?: string;
+}
+
+export interface ImageEditRequest extends ImageGenerationRequest {
+    baseImage: Part;
+    // Regional edits only: white marks the region to change. Also present in `parts`.
+    mask?: Part;
+}
+
+// Token counts are null when the model doesn't report them (e.g. the mock provider).
+export interface ModelUsage {
+    model: string;
+    inputTokens: number | null;
+    outputTokens: number | null;
+    totalTokens: number | null;
+}
+
+export interface CallOptions {
+    // Aborts the request, e.g. when the user cancels.
+    signal?: AbortSignal;
+    // Called for every model response, including ones then rejected (blocked, no image), since
+    // those are billed too. Retries report once per attempt.
+    onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface ProviderHealth {
+    ok: boolean;
+    provider: ProviderId;
+    models?: { classify: string; image: string };
+    // User-facing explanation when `ok` is false.
+    message?: string;
+}
+
+export interface ImageProvider {
+    id: ProviderId;
+    checkHealth: () => Promise<ProviderHealth>;
+    // Returns the model's raw JSON description of the item, shaped by ITEM_ANALYSIS_SCHEMA.
+    analyzeItem: (request: AnalyzeRequest, options?: CallOptions) => Promise<string>;
+    // Returns the model's raw JSON verdict comparing the hero item reference with a generated image.
+    checkFidelity: (request: FidelityRequest, options?: CallOptions) => Promise<string>;
+    // Both return a data URL for the resulting image.
+    generateImage: (request: ImageGenerationRequest, options?: CallOptions) => Promise<string>;
+    editImage: (request: ImageEditRequest, options?: CallOptions) => Promise<string>;
+}
+
+export interface ProviderConfig {
+    provider: ProviderId;
+    // Only used by the Gemini adapter, which runs on the server so the key never reaches the browser.
+    apiKey?: string;
+    apiBaseUrl?: string;
+    classifyModel?: string;
+    imageModel?: string;
+    // Per attempt; a request that takes longer is aborted and counts as a transient failure.
+    timeoutMs?: number;
+    // Extra attempts after a transient failure (quota, server, network, timeout).
+    maxRetries?: number;
+}
+
+export const DEFAULT_CLASSIFY_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+export const DEFAULT_TIMEOUT_MS = 120_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Constrains the analysis model's output; the studio still validates every field it reads.
+export const ITEM_ANALYSIS_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        category: { type: Type.STRING },
+        categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+        subcategory: { type: Type.STRING },
+        colors: { type: Type.ARRAY, items: { type: Type.STRING } },
+        material: { type: Type.STRING },
+        pattern: { type: Type.STRING },
+        fit: { type: Type.STRING },
+        gender: { type: Type.STRING, enum: ['Women', 'Men', 'Unisex', 'Kids'] },
+        details: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['category', 'categories', 'subcategory', 'colors', 'material', 'pattern', 'fit', 'gender', 'details'],
+    propertyOrdering: ['category', 'categories', 'subcategory', 'colors', 'material', 'pattern', 'fit', 'gender', 'details'],
+};
+
+// Unset or malformed numbers fall back to the default; 0 is a valid setting.
+export const readNumberSetting = (value: string | undefined, fallback: number): number =>
+    value !== undefined && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : fallback;
+
+// Browser-side config; values come from .env.local through vite.config.ts (see README).
+export const providerConfig: ProviderConfig = {
+    provider: process.env.IMAGE_PROVIDER === 'mock' ? 'mock' : 'proxy',
+    apiBaseUrl: process.env.API_BASE_URL || '/api',
+    timeoutMs: readNumberSetting(process.env.REQUEST_TIMEOUT_SECONDS, DEFAULT_TIMEOUT_MS / 1000) * 1000,
+    maxRetries: readNumberSetting(process.env.MAX_RETRIES, DEFAULT_MAX_RETRIES),
+};
+
+
+// --- Errors ---
+// Every provider failure surfaces as a ModelError, so the studio can explain what went wrong
+// and offer the right way to recover instead of one generic message.
+
+// 'budget' is raised by the studio itself when a spending limit blocks a call before it is sent.
+export type ModelErrorKind = 'quota' | 'safety' | 'no-image' | 'invalid-input' | 'network' | 'timeout' | 'server' | 'cancelled' | 'budget';
+
+export const MODEL_ERROR_KINDS: ModelErrorKind[] = ['quota', 'safety', 'no-image', 'invalid-input', 'network', 'timeout', 'server', 'cancelled', 'budget'];
+
+export interface ModelErrorDetails {
+    // The model's block or finish reason, for safety errors.
+    reason?: string;
+    // Text the model returned instead of an image.
+    modelText?: string;
+    // How long the server asked us to wait before retrying.
+    retryAfterMs?: number;
+}
+
+export class ModelError extends Error {
+    constructor(public kind: ModelErrorKind, message: string, public details: ModelErrorDetails = {}) {
+        super(message);
+        this.name = 'ModelError';
+    }
+}
+
+const formatReason = (reason: string) => reason.toLowerCase().replace(/_/g, ' ');
+
+const MODEL_ERROR_MESSAGES: Record<ModelErrorKind, (details: ModelErrorDetails) => string> = {
+    quota: () => "The AI Alchemist has hit its usage limit for now. Wait a minute and try again.",
+    safety: ({ reason }) => `The model declined this request for safety reasons${reason ? ` (${formatReason(reason)})` : ''}. Adjust the brief or images and try again.`,
+    'no-image': ({ modelText }) => modelText
+        ? "The model replied with text instead of an image. Its reply may explain why; adjust your inputs and try again."
+        : "The Alchemist couldn't generate an image. Try refining your inputs.",
+    'invalid-input': ({ reason }) => `The model couldn't use one of your images${reason ? ` (${reason})` : ''}. Replace it with a JPEG or PNG and try again.`,
+    network: () => "The AI Alchemist's server can't be reached. Please check your connection or contact the administrator.",
+    timeout: () => "The model took too long to respond. Please try again.",
+    server: () => "The image model had a temporary problem. Please try again in a moment.",
+    cancelled: () => "The request was cancelled.",
+    budget: () => "The spending limit has been reached.",
+};
+
+export const createModelError = (kind: ModelErrorKind, details: ModelErrorDetails = {}, message?: string) =>
+    new ModelError(kind, message ?? MODEL_ERROR_MESSAGES[kind](details), details);
+
+export const isCancelled = (err: unknown) => err instanceof ModelError && err.kind === 'cancelled';
+
+// Worth retrying as-is: the same request may well succeed a moment later.
+export const isTransientError = (err: unknown) =>
+    err instanceof ModelError && (err.kind === 'quota' || err.kind === 'server' || err.kind === 'network' || err.kind === 'timeout');
+
+// For failures that aren't already typed, such as a provider bug or a broken image.
+const toModelError = (err: unknown): ModelError => err instanceof ModelError
+    ? err
+    : createModelError('server', {}, err instanceof Error && err.message ? err.message : undefined);
+
+
+// --- Timeouts & Retries ---
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+export interface RequestPolicy {
+    timeoutMs: number;
+    maxRetries: number;
+}
+
+const rejectOnAbort = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(createModelError('cancelled')), { once: true });
+});
+
+const waitFor = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createModelError('cancelled'));
+    }, { once: true });
+});
+
+// Each attempt gets its own timeout; transient failures are retried with exponential backoff and
+// jitter. Attempts are raced against the signal so cancelling is immediate even if a provider
+// ignores it.
+export const callWithPolicy = async <T>(call: (signal: AbortSignal) => Promise<T>, { timeoutMs, maxRetries }: RequestPolicy, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw createModelError('cancelled');
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const abort = () => controller.abort();
+        signal?.addEventListener('abort', abort, { once: true });
+        try {
+            return await Promise.race([call(controller.signal), rejectOnAbort(controller.signal)]);
+        } catch (err) {
+            const error = signal?.aborted ? createModelError('cancelled') : timedOut ? createModelError('timeout') : toModelError(err);
+            if (!isTransientError(error) || attempt >= maxRetries) throw error;
+            const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+            await waitFor(Math.max(backoff, error.details.retryAfterMs ?? 0), signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+        }
+    }
+};
+
+export const withRequestPolicy = (provider: ImageProvider, policy: RequestPolicy): ImageProvider => ({
+    ...provider,
+    analyzeItem: (request, options) => callWithPolicy(signal => provider.analyzeItem(request, { ...options, signal }), policy, options?.signal),
+    checkFidelity: (request, options) => callWithPolicy(signal => provider.checkFidelity(request, { ...options, signal }), policy, options?.signal),
+    generateImage: (request, options) => callWithPolicy(signal => provider.generateImage(request, { ...options, signal }), policy, options?.signal),
+    editImage: (request, options) => callWithPolicy(signal => provider.editImage(request, { ...options, signal }), policy, options?.signal),
+});
+
+
+// --- Gemini Provider ---
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+const toGeminiError = (err: unknown): ModelError => {
+    if (err instanceof ModelError) return err;
+    if (err instanceof ApiError) {
+        if (err.status === 429) return createModelError('quota');
+        if (err.status === 400) return createModelError('invalid-input', { reason: err.message });
+        return createModelError('server');
+    }
+    // The SDK's fetch failed before any response arrived.
+    if (err instanceof TypeError) return createModelError('network');
+    return toModelError(err);
+};
+
+// Blocked prompts come back as a normal response with no candidates, not as an API error.
+const checkBlocked = (response: GenerateContentResponse) => {
+    const { blockReason, blockReasonMessage } = response.promptFeedback ?? {};
+    if (blockReason) throw createModelError('safety', { reason: blockReasonMessage || blockReason });
+    const { finishReason, finishMessage } = response.candidates?.[0] ?? {};
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) throw createModelError('safety', { reason: finishMessage || finishReason });
+};
+
+export const createGeminiProvider = ({ apiKey, classifyModel = DEFAULT_CLASSIFY_MODEL, imageModel = DEFAULT_IMAGE_MODEL }: ProviderConfig): ImageProvider => {
+    // This will throw an error if the API key is not available.
+    const ai = new GoogleGenAI({ apiKey });
+
+    const call = async (request: Parameters<typeof ai.models.generateContent>[0], onUsage?: CallOptions['onUsage']): Promise<GenerateContentResponse> => {
+        let response: GenerateContentResponse;
+        try {
+            response = await ai.models.generateContent(request);
+        } catch (err) {
+            throw toGeminiError(err);
+        }
+        const { promptTokenCount, candidatesTokenCount, totalTokenCount } = response.usageMetadata ?? {};
+        onUsage?.({
+            model: response.modelVersion ?? request.model,
+            inputTokens: promptTokenCount ?? null,
+            outputTokens: candidatesTokenCount ?? null,
+            totalTokens: totalTokenCount ?? null,
+        });
+        checkBlocked(response);
+        return response;
+    };
+
+    const readJson = (response: GenerateContentResponse): string => {
+        const text = response.text?.trim();
+        if (!text) throw createModelError('server', {}, "The model returned an empty answer. Please try again.");
+        return text;
+    };
+
+    const generate = async (parts: Part[], aspectRatio: string | undefined, options?: CallOptions): Promise<string> => {
+        const response = await call({
+            model: imageModel,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                ...(aspectRatio && { imageConfig: { aspectRatio } }),
+                abortSignal: options?.signal,
+            },
+        }, options?.onUsage);
+
+        const responseParts = response.candidates?.[0]?.content?.parts ?? [];
+        const imagePart = responseParts.find(part => part.inlineData);
+
+        if (imagePart && imagePart.inlineData) {
+            return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+        }
+        // The model sometimes explains itself in text instead of drawing; pass that on.
+        const modelText = responseParts.map(part => part.text ?? '').join('\n').trim();
+        throw createModelError('no-image', { modelText: modelText || undefined });
+    };
+
+    return {
+        id: 'gemini',
+        checkHealth: async () => ({ ok: true, provider: 'gemini', models: { classify: classifyModel, image: imageModel } }),
+        analyzeItem: async ({ prompt, image }, options) => readJson(await call({
+            model: classifyModel,
+            contents: { parts: [{ text: prompt }, image] },
+            config: { responseMimeType: 'application/json', responseSchema: ITEM_ANALYSIS_SCHEMA, abortSignal: options?.signal },
+        }, options?.onUsage)),
+        checkFidelity: async ({ prompt, reference, image }, options) => readJson(await call({
+            model: classifyModel,
+            contents: { parts: [{ text: prompt }, { text: 'HERO ITEM REFERENCE:' }, reference, { text: 'GENERATED IMAGE:' }, image] },
+            config: { responseMimeType: 'application/json', abortSignal: options?.signal },
+        }, options?.onUsage)),
+        generateImage: ({ parts, aspectRatio }, options) => generate(parts, aspectRatio, options),
+        editImage: ({ parts, aspectRatio }, options) => generate(parts, aspectRatio, options),
+    };
+};
+
+
+// --- Proxy Provider ---
+// Talks to the studio server (server/index.ts), which holds the API key and calls Gemini.
+
+type ResponseBody = Record<string, unknown>;
+
+const isModelErrorKind = (value: unknown): value is ModelErrorKind => MODEL_ERROR_KINDS.includes(value as ModelErrorKind);
+
+const isModelUsage = (value: unknown): value is ModelUsage => {
+    if (!value || typeof value !== 'object') return false;
+    const usage = value as ResponseBody;
+    const isCount = (count: unknown) => count === null || typeof count === 'number';
+    return typeof usage.model === 'string' && isCount(usage.inputTokens) && isCount(usage.outputTokens) && isCount(usage.totalTokens);
+};
+
+// Only the known detail fields are kept, so a malformed response can't smuggle in others.
+const readErrorDetails = (value: unknown): ModelErrorDetails => {
+    if (!value || typeof value !== 'object') return {};
+    const { reason, modelText } = value as ResponseBody;
+    return {
+        reason: typeof reason === 'string' ? reason : undefined,
+        modelText: typeof modelText === 'string' ? modelText : undefined,
+    };
+};
+
+// The server sends the kind of model errors; its own errors (rate limit, bad request) only have a status.
+const readErrorResponse = (response: Response, data: ResponseBody): ModelError => {
+    const retryAfterMs = readNumberSetting(response.headers.get('Retry-After') ?? undefined, 0) * 1000 || undefined;
+    const message = typeof data.error === 'string' ? data.error : undefined;
+    if (isModelErrorKind(data.kind)) return new ModelError(data.kind, message ?? MODEL_ERROR_MESSAGES[data.kind]({}), { ...readErrorDetails(data.details), retryAfterMs });
+    if (response.status === 429) return createModelError('quota', { retryAfterMs }, message);
+    if (response.status === 400 || response.status === 413) return createModelError('invalid-input', {}, message);
+    if (response.status === 504) return createModelError('timeout', {}, message);
+    return createModelError('server', {}, message ?? `The AI Alchemist's server responded with an error (${response.status}).`);
+};
+
+export const createProxyProvider = ({ apiBaseUrl = '/api' }: ProviderConfig): ImageProvider => {
+    // Each route answers with one text field; a 200 without it is treated as a server fault.
+    const post = async (path: string, field: 'image' | 'analysis' | 'verdict', body: unknown, { signal, onUsage }: CallOptions = {}): Promise<string> => {
+        let response: Response;
+        try {
+            response = await fetch(`${apiBaseUrl}${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch {
+            if (signal?.aborted) throw createModelError('cancelled');
+            throw createModelError('network');
+        }
+        const json: unknown = await response.json().catch(() => null);
+        const data: ResponseBody = json && typeof json === 'object' ? json as ResponseBody : {};
+        // The server reports usage on failures too.
+        if (Array.isArray(data.usage)) data.usage.filter(isModelUsage).forEach(usage => onUsage?.(usage));
+        if (!response.ok) throw readErrorResponse(response, data);
+        const result = data[field];
+        if (typeof result !== 'string' || !result) throw createModelError('server');
+        return result;
+    };
+
+    return {
+        id: 'proxy',
+        checkHealth: async () => {
+            try {
+                const response = await fetch(`${apiBaseUrl}/health`);
+                return await response.json() as ProviderHealth;
+            } catch {
+                return { ok: false, provider: 'proxy', message: MODEL_ERROR_MESSAGES.network({}) };
+            }
+        },
+        analyzeItem: (request, options) => post('/analyze', 'analysis', request, options),
+        checkFidelity: (request, options) => post('/fidelity', 'verdict', request, options),
+        generateImage: (request, options) => post('/generate', 'image', request, options),
+        editImage: (request, options) => post('/refine', 'image', request, options),
+    };
+};
+
+
+// --- Mock Provider ---
+// Deterministic and fully offline: the same inputs always produce the same analysis and image,
+// so the whole studio flow can be developed and demoed without network or an API key.
+
+const MOCK_CATEGORIES = ['T-Shirt', 'Jacket', 'Dress', 'Watch', 'Necklace', 'Handbag'];
+const MOCK_LATENCY_MS = 600;
+// Usage is still reported so tracking can be tried offline; the mock is free.
+const MOCK_USAGE: ModelUsage = { model: 'mock', inputTokens: null, outputTokens: null, totalTokens: null };
+
+// FNV-1a; only used to derive stable colors and categories from the inputs.
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hashParts = (parts: Part[]): number =>
+    hashString(parts.map(part => part.text ?? part.inlineData?.data?.slice(0, 2048) ?? '').join('|'));
+
+const partToDataUrl = (part: Part): string => `data:${part.inlineData?.mimeType};base64,${part.inlineData?.data}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(err);
+        img.src = src;
+    });
+
+// Average of the central quarter, where product photos usually put the item.
+const getAverageColor = async (img: HTMLImageElement): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, img.naturalWidth / 4, img.naturalHeight / 4, img.naturalWidth / 2, img.naturalHeight / 2, 0, 0, 1, 1);
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+    const scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string) => {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height - 56, width, 56);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '500 20px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, width / 2, height - 28);
+};
+
+export const createMockProvider = (): ImageProvider => ({
+    id: 'mock',
+    checkHealth: async () => ({ ok: true, provider: 'mock' }),
+    analyzeItem: async ({ image }, options) => {
+        await delay(MOCK_LATENCY_MS / 2);
+        options?.onUsage?.(MOCK_USAGE);
+        const category = MOCK_CATEGORIES[hashParts([image]) % MOCK_CATEGORIES.length];
+        return JSON.stringify({
+            category,
+            categories: [category],
+            subcategory: `Mock ${category.toLowerCase()}`,
+            colors: [await getAverageColor(await loadImage(partToDataUrl(image)))],
+            material: 'Cotton',
+            pattern: 'Solid',
+            fit: 'Regular',
+            gender: 'Unisex',
+            details: [],
+        });
+    },
+    checkFidelity: async ({ image }, options) => {
+        await delay(MOCK_LATENCY_MS / 2);
+        options?.onUsage?.(MOCK_USAGE);
+        // Mock renders paste the hero item in untouched, so most pass; a few fail to exercise retries.
+        const hash = hashParts([image]);
+        const score = 55 + (hash % 45);
+        return JSON.stringify({
+            score,
+            box: { x: 0.125, y: 0.125, width: 0.75, height: 0.6875 },
+            discrepancies: score < 70 ? ['Mock inspection: the logo placement looks shifted.'] : [],
+        });
+    },
+    generateImage: async ({ parts, heroItem, aspectRatio = '3:4' }, options) => {
+        await delay(MOCK_LATENCY_MS);
+        options?.onUsage?.(MOCK_USAGE);
+        const hash = hashParts(parts);
+        const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(1024 * Math.min(1, ratioWidth / ratioHeight));
+        canvas.height = Math.round(1024 * Math.min(1, ratioHeight / ratioWidth));
+        const ctx = canvas.getContext('2d')!;
+
+        const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+        gradient.addColorStop(0, `hsl(${hash % 360}, 45%, 35%)`);
+        gradient.addColorStop(1, `hsl(${(hash >> 9) % 360}, 45%, 15%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        drawContained(ctx, await loadImage(partToDataUrl(heroItem)), canvas.width / 8, canvas.height / 8, canvas.width * 3 / 4, canvas.height * 11 / 16);
+        drawLabel(ctx, `Mock render #${(hash % 10000).toString().padStart(4, '0')}`);
+        return canvas.toDataURL('image/png');
+    },
+    editImage: async ({ parts, heroItem, baseImage }, options) => {
+        await delay(MOCK_LATENCY_MS);
+        options?.onUsage?.(MOCK_USAGE);
+        const hash = hashParts(parts);
+        const base = await loadImage(partToDataUrl(baseImage));
+        // Keep the base dimensions, mirroring the aspect ratio lock in the editing prompt.
+        const canvas = document.createElement('canvas');
+        canvas.width = base.naturalWidth;
+        canvas.height = base.naturalHeight;
+        const ctx = canvas.getContext('2d')!;
+
+        ctx.drawImage(base, 0, 0);
+        ctx.fillStyle = `hsla(${hash % 360}, 60%, 50%, 0.25)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        const inset = Math.round(canvas.width / 4);
+        drawContained(ctx, await loadImage(partToDataUrl(heroItem)), canvas.width - inset - 16, 16, inset, inset);
+        drawLabel(ctx, `Mock refinement #${(hash % 10000).toString().padStart(4, '0')}`);
+        return canvas.toDataURL('image/png');
+    },
+});
+
+
+// --- Factory ---
+const createBaseProvider = (config: ProviderConfig): ImageProvider => {
+    switch (config.provider) {
+        case 'proxy':
+            return createProxyProvider(config);
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+            return createGeminiProvider(config);
+    }
+};
+
+export const createImageProvider = (config: ProviderConfig): ImageProvider => withRequestPolicy(createBaseProvider(config), {
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+});
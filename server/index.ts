@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Part } from '@google/genai';
+import { CallOptions, createGeminiProvider, DEFAULT_CLASSIFY_MODEL, DEFAULT_IMAGE_MODEL, DEFAULT_TIMEOUT_MS, ImageProvider, ModelError, ModelErrorKind, ModelUsage, ProviderHealth, readNumberSetting, withRequestPolicy } from '../providers';
+
+// --- Configuration ---
+// The Gemini API key lives only here; the browser talks to these routes instead.
+// Locally it comes from .env.local; deployments set real environment variables.
+const ENV_FILE = path.resolve(import.meta.dirname, '..', '.env.local');
+if (existsSync(ENV_FILE)) process.loadEnvFile(ENV_FILE);
+
+const PORT = Number(process.env.PORT) || 8787;
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const CLASSIFY_MODEL = process.env.CLASSIFY_MODEL || DEFAULT_CLASSIFY_MODEL;
+const IMAGE_MODEL = process.env.IMAGE_MODEL || DEFAULT_IMAGE_MODEL;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 20;
+const MAX_REQUEST_BYTES = (Number(process.env.MAX_REQUEST_MB) || 20) * 1024 * 1024;
+const REQUEST_TIMEOUT_MS = readNumberSetting(process.env.REQUEST_TIMEOUT_SECONDS, DEFAULT_TIMEOUT_MS / 1000) * 1000;
+// Only honour X-Forwarded-For behind a reverse proxy; otherwise clients could spoof their identity.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve(import.meta.dirname, '..', 'dist');
+
+let provider: ImageProvider | null = null;
+let configError: string | null = null;
+
+if (!GEMINI_API_KEY) {
+    configError = "The AI Alchemist's server has no GEMINI_API_KEY configured. Please contact the administrator to resolve this issue.";
+} else {
+    try {
+        // Retries happen in the browser, which can show progress and cancel them.
+        provider = withRequestPolicy(
+            createGeminiProvider({ provider: 'gemini', apiKey: GEMINI_API_KEY, classifyModel: CLASSIFY_MODEL, imageModel: IMAGE_MODEL }),
+            { timeoutMs: REQUEST_TIMEOUT_MS, maxRetries: 0 },
+        );
+    } catch (e) {
+        console.error("Failed to initialize the Gemini provider.", e);
+        configError = "The AI Alchemist is not configured correctly. Please contact the administrator to resolve this issue.";
+    }
+}
+
+
+// --- Helpers ---
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const getClientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Sliding one-minute window of request timestamps per client.
+const requestLog = new Map<string, number[]>();
+
+const checkRateLimit = (clientId: string) => {
+    const now = Date.now();
+    const recent = (requestLog.get(clientId) ?? []).filter(t => now - t < 60_000);
+    if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+        requestLog.set(clientId, recent);
+        throw new HttpError(429, "You're creating too quickly. Please wait a minute and try again.");
+    }
+    recent.push(now);
+    requestLog.set(clientId, recent);
+};
+
+// Drop idle clients so the log doesn't grow without bound.
+setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, times] of requestLog) {
+        if (times.every(t => now - t >= 60_000)) requestLog.delete(clientId);
+    }
+}, 60_000).unref();
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+    if (Number(req.headers['content-length']) > MAX_REQUEST_BYTES) {
+        throw new HttpError(413, "Your images are too large to send. Please use smaller files and try again.");
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_REQUEST_BYTES) {
+            throw new HttpError(413, "Your images are too large to send. Please use smaller files and try again.");
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, "The request could not be read.");
+    }
+};
+
+// Request bodies come from the browser, so every field is checked before it reaches the model.
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isPart = (value: unknown): value is Part => isRecord(value)
+    && (typeof value.text === 'string' || (isRecord(value.inlineData) && typeof value.inlineData.data === 'string'));
+const isPartList = (value: unknown): value is Part[] => Array.isArray(value) && value.length > 0 && value.every(isPart);
+
+const readAspectRatio = (value: unknown): string | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !/^\d{1,2}:\d{1,2}$/.test(value)) throw new HttpError(400, "The aspect ratio could not be read.");
+    return value;
+};
+
+const MODEL_ERROR_STATUS: Record<ModelErrorKind, number> = {
+    quota: 429,
+    safety: 422,
+    'no-image': 422,
+    'invalid-input': 400,
+    network: 502,
+    timeout: 504,
+    server: 502,
+    cancelled: 499,
+    budget: 402,
+};
+
+const requireProvider = (): ImageProvider => {
+    if (!provider) throw new HttpError(503, configError ?? "The AI Alchemist is not configured correctly.");
+    return provider;
+};
+
+
+// --- Routes ---
+const getHealth = (): ProviderHealth => provider
+    ? { ok: true, provider: 'gemini', models: { classify: CLASSIFY_MODEL, image: IMAGE_MODEL } }
+    : { ok: false, provider: 'gemini', message: configError ?? undefined };
+
+// The signal aborts the model call when the browser cancels or disconnects; usage reports are
+// collected and sent back with the result so the browser can track spend.
+const postRoutes: { [path: string]: (body: unknown, options: CallOptions) => Promise<object> } = {
+    '/api/analyze': async (body, options) => {
+        if (!isRecord(body) || typeof body.prompt !== 'string' || !isPart(body.image)) throw new HttpError(400, "An item image is required.");
+        return { analysis: await requireProvider().analyzeItem({ prompt: body.prompt, image: body.image }, options) };
+    },
+    '/api/fidelity': async (body, options) => {
+        if (!isRecord(body) || typeof body.prompt !== 'string' || !isPart(body.reference) || !isPart(body.image)) throw new HttpError(400, "A hero item and an image to check are required.");
+        return { verdict: await requireProvider().checkFidelity({ prompt: body.prompt, reference: body.reference, image: body.image }, options) };
+    },
+    '/api/generate': async (body, options) => {
+        if (!isRecord(body) || !isPartList(body.parts) || !isPart(body.heroItem)) throw new HttpError(400, "A hero item and creative direction are required.");
+        return { image: await requireProvider().generateImage({ parts: body.parts, heroItem: body.heroItem, aspectRatio: readAspectRatio(body.aspectRatio) }, options) };
+    },
+    '/api/refine': async (body, options) => {
+        if (!isRecord(body) || !isPartList(body.parts) || !isPart(body.heroItem) || !isPart(body.baseImage)) throw new HttpError(400, "A hero item and an image to refine are required.");
+        if (body.mask !== undefined && !isPart(body.mask)) throw new HttpError(400, "The edit mask could not be read.");
+        return { image: await requireProvider().editImage({ parts: body.parts, heroItem: body.heroItem, baseImage: body.baseImage, mask: body.mask, aspectRatio: readAspectRatio(body.aspectRatio) }, options) };
+    },
+};
+
+const CONTENT_TYPES: { [ext: string]: string } = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+    '.json': 'application/json',
+};
+
+// Serves the production build (npm run build) so one process can host the whole studio.
+const serveStatic = async (urlPath: string, res: ServerResponse) => {
+    let decodedPath: string;
+    try {
+        decodedPath = decodeURIComponent(urlPath);
+    } catch {
+        throw new HttpError(400, "The requested path could not be read.");
+    }
+    const requested = path.resolve(STATIC_DIR, '.' + decodedPath);
+    // Compared by relative path so sibling folders such as `dist-old` can't be reached.
+    const relativePath = path.relative(STATIC_DIR, requested);
+    const isInside = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    const filePath = isInside && (await stat(requested).catch(() => null))?.isFile()
+        ? requested
+        : path.join(STATIC_DIR, 'index.html');
+    try {
+        const content = await readFile(filePath);
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+        res.end(content);
+    } catch {
+        sendJson(res, 404, { error: "Not found. Run `npm run build` to serve the studio from this server." });
+    }
+};
+
+const server = createServer(async (req, res) => {
+    const urlPath = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const usage: ModelUsage[] = [];
+    try {
+        if (req.method === 'GET' && urlPath === '/api/health') {
+            return sendJson(res, 200, getHealth());
+        }
+        const route = postRoutes[urlPath];
+        if (route) {
+            if (req.method !== 'POST') throw new HttpError(405, "Method not allowed.");
+            checkRateLimit(getClientId(req));
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableEnded) controller.abort();
+            });
+            const result = await route(await readJsonBody(req), { signal: controller.signal, onUsage: report => usage.push(report) });
+            return sendJson(res, 200, { ...result, usage });
+        }
+        if (urlPath.startsWith('/api/')) throw new HttpError(404, "Not found.");
+        await serveStatic(urlPath, res);
+    } catch (err) {
+        if (err instanceof HttpError) {
+            if (err.status === 413) res.setHeader('Connection', 'close');
+            if (err.status === 429) res.setHeader('Retry-After', '60');
+            return sendJson(res, err.status, { error: err.message });
+        }
+        // Typed so the browser can explain the failure and decide whether to retry.
+        if (err instanceof ModelError) {
+            if (err.kind === 'cancelled') return res.destroy();
+            if (err.kind !== 'safety' && err.kind !== 'no-image' && err.kind !== 'invalid-input') console.error(err);
+            return sendJson(res, MODEL_ERROR_STATUS[err.kind], { error: err.message, kind: err.kind, details: err.details, usage });
+        }
+        // Anything else is a server bug; its message may expose internals, so it's only logged.
+        console.error("Unexpected error handling", urlPath, err);
+        sendJson(res, 502, { error: "The studio server ran into a problem. Please try again in a moment." });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`The Alchemist's Studio server listening on http://localhost:${PORT}`);
+    if (configError) console.warn(configError);
+});
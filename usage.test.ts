@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildUsageCsv, DEFAULT_BUDGET_SETTINGS, estimateCost, getBudgetWarning, readBudgetSettings, summarizeUsage, totalReports, UsageRecord } from './usage';
+
+const NOW = new Date(2026, 9, 18, 12);
+
+const createRecord = (patch: Partial<UsageRecord> = {}): UsageRecord => ({
+    id: 'record',
+    timestamp: NOW.getTime(),
+    source: 'single',
+    projectId: 'project-1',
+    projectName: 'Spring Drop',
+    operation: 'generation',
+    model: 'gemini-2.5-flash-image-preview',
+    user: 'Sam',
+    inputImages: 2,
+    inputImageBytes: 2048,
+    inputTokens: 1000,
+    outputTokens: 1290,
+    totalTokens: 2290,
+    latencyMs: 4200,
+    outcome: 'success',
+    estimatedCost: 0.04,
+    ...patch,
+});
+
+describe('estimateCost', () => {
+    it('prices image models separately from their text siblings', () => {
+        expect(estimateCost({ model: 'gemini-2.5-flash-image-preview', inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: null })).toBeCloseTo(30.3);
+        expect(estimateCost({ model: 'gemini-2.5-flash', inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: null })).toBeCloseTo(2.8);
+    });
+
+    it('treats missing token counts on one side as zero', () => {
+        expect(estimateCost({ model: 'gemini-2.5-flash', inputTokens: 2_000_000, outputTokens: null, totalTokens: null })).toBeCloseTo(0.6);
+    });
+
+    it('returns null when the price or the token counts are unknown', () => {
+        expect(estimateCost({ model: 'some-other-model', inputTokens: 100, outputTokens: 100, totalTokens: 200 })).toBeNull();
+        expect(estimateCost({ model: 'gemini-2.5-flash', inputTokens: null, outputTokens: null, totalTokens: null })).toBeNull();
+    });
+
+    it('prices the free mock provider at zero even without token counts', () => {
+        expect(estimateCost({ model: 'mock', inputTokens: null, outputTokens: null, totalTokens: null })).toBe(0);
+    });
+});
+
+describe('totalReports', () => {
+    it('adds up every response of a call', () => {
+        const totals = totalReports([
+            { model: 'gemini-2.5-flash', inputTokens: 100, outputTokens: null, totalTokens: 100 },
+            { model: 'gemini-2.5-flash', inputTokens: 200, outputTokens: 50, totalTokens: 250 },
+        ]);
+
+        expect(totals).toMatchObject({ model: 'gemini-2.5-flash', inputTokens: 300, outputTokens: 50, totalTokens: 350 });
+        expect(totals.estimatedCost).toBeCloseTo((300 * 0.3 + 50 * 2.5) / 1_000_000);
+    });
+
+    it('records calls that never reached the model as free', () => {
+        expect(totalReports([])).toEqual({ model: 'none', inputTokens: null, outputTokens: null, totalTokens: null, estimatedCost: 0 });
+    });
+
+    it('leaves the cost unknown when any response is unpriced', () => {
+        expect(totalReports([
+            { model: 'gemini-2.5-flash', inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+            { model: 'some-other-model', inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+        ]).estimatedCost).toBeNull();
+    });
+});
+
+describe('getBudgetWarning', () => {
+    const records = [
+        createRecord({ estimatedCost: 6 }),
+        createRecord({ estimatedCost: null }),
+        // Last month, so outside the current period.
+        createRecord({ estimatedCost: 100, timestamp: new Date(2026, 8, 30).getTime() }),
+    ];
+
+    it('is silent without limits or under them', () => {
+        expect(getBudgetWarning(records, { period: 'month', softLimit: null, hardLimit: null }, NOW)).toBeNull();
+        expect(getBudgetWarning(records, { period: 'month', softLimit: 10, hardLimit: 20 }, NOW)).toBeNull();
+    });
+
+    it('warns past the soft limit', () => {
+        expect(getBudgetWarning(records, { period: 'month', softLimit: 5, hardLimit: 20 }, NOW)).toBe("This month's spend of $6.00 is over the $5.00 soft limit.");
+    });
+
+    it('reports generation paused at the hard limit', () => {
+        expect(getBudgetWarning(records, { period: 'day', softLimit: 1, hardLimit: 6 }, NOW)).toBe("Today's budget is used up ($6.00 of $6.00). Generation is paused.");
+    });
+});
+
+describe('readBudgetSettings', () => {
+    it('keeps valid saved settings', () => {
+        expect(readBudgetSettings({ period: 'day', softLimit: 5, hardLimit: 0 })).toEqual({ period: 'day', softLimit: 5, hardLimit: 0 });
+    });
+
+    it('falls back to the default for each malformed field', () => {
+        expect(readBudgetSettings({ period: 'week', softLimit: '5', hardLimit: -1, extra: true })).toEqual(DEFAULT_BUDGET_SETTINGS);
+        expect(readBudgetSettings({ period: 'day', hardLimit: 20 })).toEqual({ period: 'day', softLimit: null, hardLimit: 20 });
+    });
+
+    it('ignores saved values that are not an object', () => {
+        expect(readBudgetSettings(null)).toEqual(DEFAULT_BUDGET_SETTINGS);
+        expect(readBudgetSettings([10])).toEqual(DEFAULT_BUDGET_SETTINGS);
+    });
+});
+
+describe('summarizeUsage', () => {
+    it('groups calls, counting failures and flagging unpriced costs', () => {
+        const totals = summarizeUsage([
+            createRecord({ projectName: 'Old Name' }),
+            createRecord({ outcome: 'timeout', estimatedCost: null, totalTokens: null }),
+            createRecord({ projectId: null, projectName: null, source: 'batch', estimatedCost: 0.01 }),
+        ], record => record.projectId ?? record.source, record => record.projectName ?? record.source);
+
+        expect(totals).toEqual([
+            { key: 'project-1', label: 'Spring Drop', calls: 2, failures: 1, tokens: 2290, cost: 0.04, isPartial: true },
+            { key: 'batch', label: 'batch', calls: 1, failures: 0, tokens: 2290, cost: 0.01, isPartial: false },
+        ]);
+    });
+});
+
+describe('buildUsageCsv', () => {
+    it('writes one row per call and quotes values that need it', async () => {
+        const csv = await buildUsageCsv([createRecord({ projectName: 'Spring, "Drop"', estimatedCost: null })]).text();
+        const [header, row] = csv.split('\r\n');
+
+        expect(header.split(',')).toHaveLength(15);
+        expect(row).toContain(',"Spring, ""Drop""",');
+        expect(row.endsWith(',success,')).toBe(true);
+    });
+});
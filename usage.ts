@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Part } from "@google/genai";
+import { isRecord } from './guards';
+import { ModelErrorKind, ModelUsage } from './providers';
+
+// --- Usage Records ---
+// Every model call is logged with its model, input images, token usage, latency, outcome and an
+// estimated cost, attributed to the project (or batch / shot list run) and the user that made it.
+// The studio stores and displays the log; everything here is plain data in, data out.
+
+export type UsageOperation = 'classification' | 'inspection' | 'generation' | 'refinement';
+// A model error kind, or 'error' for anything else that failed.
+export type UsageOutcome = 'success' | ModelErrorKind | 'error';
+// The studio mode the call was made from.
+export type UsageSource = 'single' | 'batch' | 'shotlist';
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+    classification: 'Item Analysis',
+    inspection: 'Fidelity Check',
+    generation: 'Generation',
+    refinement: 'Refinement',
+};
+
+export const SOURCE_LABELS: Record<UsageSource, string> = { single: 'Single Look', batch: 'Batch', shotlist: 'Shot List' };
+
+export interface UsageScope {
+    source: UsageSource;
+    // Single-look projects only; batch and shot list runs aren't saved as projects.
+    projectId: string | null;
+    projectName: string | null;
+}
+
+export interface UsageRecord extends UsageScope {
+    id: string;
+    timestamp: number;
+    operation: UsageOperation;
+    model: string;
+    user: string;
+    inputImages: number;
+    inputImageBytes: number;
+    inputTokens: number | null;
+    outputTokens: number | null;
+    totalTokens: number | null;
+    latencyMs: number;
+    outcome: UsageOutcome;
+    // USD; null when the model's price or its token counts are unknown.
+    estimatedCost: number | null;
+}
+
+export const measureImages = (parts: Part[]) => parts.reduce(
+    (total, part) => part.inlineData?.data ? { count: total.count + 1, bytes: total.bytes + Math.floor(part.inlineData.data.length * 3 / 4) } : total,
+    { count: 0, bytes: 0 },
+);
+
+
+// --- Pricing ---
+// USD per million tokens at list price, matched by model name prefix. Generated images are billed
+// as output tokens (about 1,290 per image).
+export const MODEL_PRICING: { [modelPrefix: string]: { input: number; output: number } } = {
+    'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'mock': { input: 0, output: 0 },
+};
+
+export const estimateCost = ({ model, inputTokens, outputTokens }: ModelUsage): number | null => {
+    // Longest prefix first, so image models aren't priced as their text siblings.
+    const prefix = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length).find(key => model.startsWith(key));
+    if (!prefix) return null;
+    const { input, output } = MODEL_PRICING[prefix];
+    if (input === 0 && output === 0) return 0;
+    if (inputTokens === null && outputTokens === null) return null;
+    return ((inputTokens ?? 0) * input + (outputTokens ?? 0) * output) / 1_000_000;
+};
+
+// One call can report several responses (retries, fidelity re-checks); they are billed together.
+// Calls that never reached the model report nothing and cost nothing.
+export const totalReports = (reports: ModelUsage[]): Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens' | 'totalTokens' | 'estimatedCost'> => {
+    const total = (key: 'inputTokens' | 'outputTokens' | 'totalTokens') =>
+        reports.some(report => report[key] !== null) ? reports.reduce((sum, report) => sum + (report[key] ?? 0), 0) : null;
+    const costs = reports.map(estimateCost);
+    return {
+        model: reports[reports.length - 1]?.model ?? 'none',
+        inputTokens: total('inputTokens'),
+        outputTokens: total('outputTokens'),
+        totalTokens: total('totalTokens'),
+        estimatedCost: costs.includes(null) ? null : costs.reduce((sum, cost) => sum + cost!, 0),
+    };
+};
+
+export const formatCost = (cost: number | null) => cost === null ? '—' : `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+
+// --- Budgets ---
+export type BudgetPeriod = 'day' | 'month';
+
+export interface BudgetSettings {
+    period: BudgetPeriod;
+    // USD per period. Past the soft limit the studio warns; past the hard limit it stops generating.
+    softLimit: number | null;
+    hardLimit: number | null;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { period: 'month', softLimit: null, hardLimit: null };
+
+// Saved settings may be from an older version or edited by hand; anything malformed falls back
+// to its default.
+export const readBudgetSettings = (value: unknown): BudgetSettings => {
+    const settings = isRecord(value) ? value : {};
+    const readLimit = (limit: unknown) => typeof limit === 'number' && Number.isFinite(limit) && limit >= 0 ? limit : null;
+    return {
+        period: settings.period === 'day' || settings.period === 'month' ? settings.period : DEFAULT_BUDGET_SETTINGS.period,
+        softLimit: readLimit(settings.softLimit),
+        hardLimit: readLimit(settings.hardLimit),
+    };
+};
+
+export const getPeriodStart = (period: BudgetPeriod, now = new Date()) =>
+    period === 'day' ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+const sumCost = (records: UsageRecord[]) => records.reduce((total, record) => total + (record.estimatedCost ?? 0), 0);
+
+export const getPeriodSpend = (records: UsageRecord[], period: BudgetPeriod, now = new Date()) => {
+    const start = getPeriodStart(period, now);
+    return sumCost(records.filter(record => record.timestamp >= start));
+};
+
+export const getBudgetWarning = (records: UsageRecord[], { period, softLimit, hardLimit }: BudgetSettings, now = new Date()): string | null => {
+    const spent = getPeriodSpend(records, period, now);
+    const label = period === 'day' ? "Today's" : "This month's";
+    if (hardLimit !== null && spent >= hardLimit) return `${label} budget is used up (${formatCost(spent)} of ${formatCost(hardLimit)}). Generation is paused.`;
+    if (softLimit !== null && spent >= softLimit) return `${label} spend of ${formatCost(spent)} is over the ${formatCost(softLimit)} soft limit.`;
+    return null;
+};
+
+
+// --- Reports ---
+export interface UsageTotals {
+    key: string;
+    label: string;
+    calls: number;
+    failures: number;
+    tokens: number;
+    cost: number;
+    // Some calls had no price or token counts, so the cost is a lower bound.
+    isPartial: boolean;
+}
+
+export const toDateKey = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getProjectLabel = (record: UsageRecord) => record.projectName ?? SOURCE_LABELS[record.source];
+
+// Groups keep the label of their most recent record, so renamed projects show their current name.
+export const summarizeUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string, labelOf: (record: UsageRecord) => string): UsageTotals[] => {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const totals = groups.get(key) ?? { key, label: '', calls: 0, failures: 0, tokens: 0, cost: 0, isPartial: false };
+        totals.label = labelOf(record);
+        totals.calls++;
+        if (record.outcome !== 'success') totals.failures++;
+        totals.tokens += record.totalTokens ?? 0;
+        totals.cost += record.estimatedCost ?? 0;
+        if (record.estimatedCost === null) totals.isPartial = true;
+        groups.set(key, totals);
+    }
+    return [...groups.values()];
+};
+
+const USAGE_CSV_COLUMNS: Array<{ header: string; value: (record: UsageRecord) => string | number | null }> = [
+    { header: 'Time', value: record => new Date(record.timestamp).toISOString() },
+    { header: 'User', value: record => record.user },
+    { header: 'Source', value: record => SOURCE_LABELS[record.source] },
+    { header: 'Project ID', value: record => record.projectId },
+    { header: 'Project', value: getProjectLabel },
+    { header: 'Operation', value: record => USAGE_OPERATION_LABELS[record.operation] },
+    { header: 'Model', value: record => record.model },
+    { header: 'Input Images', value: record => record.inputImages },
+    { header: 'Input Image Bytes', value: record => record.inputImageBytes },
+    { header: 'Input Tokens', value: record => record.inputTokens },
+    { header: 'Output Tokens', value: record => record.outputTokens },
+    { header: 'Total Tokens', value: record => record.totalTokens },
+    { header: 'Latency (ms)', value: record => record.latencyMs },
+    { header: 'Outcome', value: record => record.outcome },
+    { header: 'Estimated Cost (USD)', value: record => record.estimatedCost === null ? null : record.estimatedCost.toFixed(6) },
+];
+
+const escapeCsv = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildUsageCsv = (records: UsageRecord[]): Blob => {
+    const rows = [
+        USAGE_CSV_COLUMNS.map(column => column.header),
+        ...records.map(record => USAGE_CSV_COLUMNS.map(column => escapeCsv(column.value(record)))),
+    ];
+    return new Blob([rows.map(row => row.join(',')).join('\r\n')], { type: 'text/csv' });
+};
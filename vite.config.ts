@@ -4,9 +4,17 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY is deliberately not defined here: it stays on the server (server/index.ts).
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.REQUEST_TIMEOUT_SECONDS': JSON.stringify(env.REQUEST_TIMEOUT_SECONDS),
+        'process.env.MAX_RETRIES': JSON.stringify(env.MAX_RETRIES)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       resolve: {
         alias: {
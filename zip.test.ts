@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZip and readZip', () => {
+    it('round-trips entries, including empty files and UTF-8 names', async () => {
+        const entries = [
+            { path: 'manifest.json', data: encode('{"format":"alchemist-project"}') },
+            { path: 'images/1.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255, 128]) },
+            { path: 'inputs/1-café.txt', data: new Uint8Array() },
+        ];
+        const files = await readZip(createZip(entries));
+
+        expect([...files.keys()]).toEqual(entries.map(entry => entry.path));
+        for (const entry of entries) expect(files.get(entry.path)).toEqual(entry.data);
+    });
+
+    it('reads deflated entries written by other tools', async () => {
+        const text = 'A lookbook '.repeat(200);
+        const bytes = new Uint8Array(await createZip([{ path: 'notes.txt', data: await deflateRaw(encode(text)) }]).arrayBuffer());
+        // Mark the entry as deflated in the central directory, which is what readZip trusts.
+        const view = new DataView(bytes.buffer);
+        const centralOffset = view.getUint32(bytes.length - 22 + 16, true);
+        view.setUint16(centralOffset + 10, 8, true);
+
+        const files = await readZip(new Blob([bytes]));
+        expect(new TextDecoder().decode(files.get('notes.txt'))).toBe(text);
+    });
+
+    it('rejects files that are not ZIP archives', async () => {
+        await expect(readZip(new Blob([encode('not a zip file at all, just text')]))).rejects.toThrow("This file is not a valid ZIP archive.");
+    });
+});